@@ -0,0 +1,563 @@
+import {
+  ProjectFeatures,
+  PackageManager,
+  CIProvider,
+  TemplateVariables,
+  ModuleKind,
+  HandlerKind,
+  CI_PROVIDERS,
+  HANDLER_KINDS,
+  PACKAGE_MANAGERS
+} from './types.js';
+
+/**
+ * Options collected from the command line. Anything left undefined is
+ * asked interactively, or defaulted when `--yes` is given.
+ */
+export interface CliOptions {
+  name?: string;
+  template?: string;
+  features: Partial<ProjectFeatures>;
+  packageManager?: PackageManager;
+  git?: boolean;
+  gitCommit?: boolean;
+  install?: boolean;
+  keepOnFailure?: boolean;
+  vars: TemplateVariables;
+
+  /**
+   * Saved preset to fill in unanswered questions from
+   */
+  preset?: string;
+
+  /**
+   * Name to save this run's answers under, as a user preset
+   */
+  savePreset?: string;
+  yes: boolean;
+  dryRun: boolean;
+  showContents: boolean;
+  help: boolean;
+}
+
+/**
+ * Raised for unknown, malformed or contradictory command-line arguments
+ */
+export class ArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArgumentError';
+  }
+}
+
+export const PROJECT_NAME_PATTERN = /^[a-z0-9-_]+$/;
+
+// Generated module names become file names and identifiers
+export const MODULE_NAME_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+export const PRESET_NAME_PATTERN = /^[a-zA-Z0-9-_]+$/;
+
+type BooleanFeature = Exclude<keyof ProjectFeatures, 'ci'>;
+
+const FEATURE_FLAGS: Record<string, BooleanFeature> = {
+  'docker': 'docker',
+  'docker-compose': 'dockerCompose',
+  'openapi': 'openapi',
+  'auth': 'auth',
+  'observability': 'observability'
+};
+
+const BOOLEAN_FLAGS: Record<string, 'git' | 'gitCommit' | 'install' | 'keepOnFailure'> = {
+  'git': 'git',
+  'git-commit': 'gitCommit',
+  'install': 'install',
+  'keep-on-failure': 'keepOnFailure'
+};
+
+export const USAGE = `Usage: create-filament [project-name] [options]
+       create-filament add <feature...> [options]
+       create-filament generate <route|middleware|handler> ... [options]
+       create-filament upgrade [options]
+
+Options:
+  --template=<name|path|url>     Template: minimal, api, full, a local directory,
+                                 a .tgz or a git URL (with optional #ref)
+  --docker, --no-docker          Include Dockerfile
+  --docker-compose               Include docker-compose.yml
+  --ci=<github|gitlab|none>      CI/CD workflow
+  --pm=<npm|pnpm|yarn|bun>       Package manager (default: npm)
+  --openapi, --no-openapi        OpenAPI/Swagger generation
+  --auth, --no-auth              Authentication (JWT + OAuth + Sessions)
+  --observability                OpenTelemetry tracing + Prometheus metrics
+  --git, --no-git                Initialize git repository
+  --no-git-commit                Skip initial commit
+  --no-install                   Skip dependency installation
+  --var <name>=<value>           Answer a template prompt (repeatable)
+  --preset <name>                Answer from a saved or organization preset
+  --save-preset <name>           Save the answers as a preset for next time
+  --keep-on-failure              Keep the partially-created project if a step fails
+  --dry-run                      Print the files and commands without writing anything
+  --show-contents                With --dry-run, also print file contents (or diffs
+                                 against an existing project)
+  -y, --yes                      Use defaults for anything not given
+  -h, --help                     Show this help
+
+In an existing project, run create-filament add --help, generate --help or
+upgrade --help to see how to add features, generate modules or upgrade it.
+`;
+
+/**
+ * Options for `create-filament add`, run inside an existing project
+ */
+export interface AddOptions {
+  features: Partial<ProjectFeatures>;
+  install: boolean;
+  skipEdited: boolean;
+  dryRun: boolean;
+  showContents: boolean;
+  help: boolean;
+}
+
+/**
+ * Features that can be added to an existing project, and what they enable
+ */
+export const ADDABLE_FEATURES: Record<string, Partial<ProjectFeatures>> = {
+  'docker': { docker: true },
+  'docker-compose': { docker: true, dockerCompose: true },
+  'github-actions': { ci: 'github' },
+  'gitlab-ci': { ci: 'gitlab' },
+  'openapi': { openapi: true },
+  'auth': { auth: true },
+  'observability': { observability: true }
+};
+
+export const ADD_USAGE = `Usage: create-filament add <feature...> [options]
+
+Adds features to the Filament project in the current directory.
+
+Features:
+  ${Object.keys(ADDABLE_FEATURES).join(', ')}
+
+Options:
+  --no-install                   Skip installing new dependencies
+  --skip-edited                  Apply what can be applied and print the changes
+                                 for files that were edited since generation
+  --dry-run                      Print the changes without writing anything
+  --show-contents                With --dry-run, also print the diffs
+  -h, --help                     Show this help
+`;
+
+/**
+ * Options for `create-filament generate`, run inside an existing project
+ */
+export interface GenerateOptions {
+  kind?: ModuleKind;
+  name?: string;
+  test: boolean;
+  dryRun: boolean;
+  showContents: boolean;
+  help: boolean;
+}
+
+export const GENERATE_USAGE = `Usage: create-filament generate route <name> [options]
+       create-filament generate middleware <name> [options]
+       create-filament generate handler <${HANDLER_KINDS.join('|')}> <name> [options]
+
+Creates a module in the Filament project in the current directory, registers
+it with the app and adds an integration test for it. Names are lowercase,
+with words separated by hyphens (e.g. order-items).
+
+Options:
+  --no-test                      Skip the integration test
+  --dry-run                      Print the changes without writing anything
+  --show-contents                With --dry-run, also print the files and diffs
+  -h, --help                     Show this help
+`;
+
+/**
+ * Options for `create-filament upgrade`, run inside an existing project
+ */
+export interface UpgradeOptions {
+  /**
+   * Version (or npm package spec) of create-filament that generated the
+   * project, for projects without a .filament.json
+   */
+  from?: string;
+
+  /**
+   * Template to upgrade to, if not the one recorded in .filament.json
+   */
+  template?: string;
+  writeConflicts: boolean;
+  install: boolean;
+  dryRun: boolean;
+  showContents: boolean;
+  help: boolean;
+}
+
+export const UPGRADE_USAGE = `Usage: create-filament upgrade [options]
+
+Applies the changes between the template version the project in the current
+directory was generated with and this version of create-filament, merging
+them into files that were edited since.
+
+Options:
+  --from=<version>               create-filament version that generated the project
+                                 (default: the version recorded in .filament.json)
+  --template=<name|path|url>     Template to upgrade to (default: the recorded one)
+  --write-conflicts              Write conflicting files with conflict markers
+                                 instead of changing nothing
+  --no-install                   Skip installing changed dependencies
+  --dry-run                      Print the changes without writing anything
+  --show-contents                With --dry-run, also print the diffs
+  -h, --help                     Show this help
+`;
+
+function parseChoice<T extends string>(flag: string, value: string | undefined, choices: readonly T[]): T {
+  if (value === undefined || value === '') {
+    throw new ArgumentError(`Option --${flag} requires a value (${choices.join(', ')})`);
+  }
+  if (!choices.includes(value as T)) {
+    throw new ArgumentError(`Invalid value "${value}" for --${flag}. Expected one of: ${choices.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Parse command-line arguments (without the node and script entries)
+ */
+export function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    features: {},
+    vars: {},
+    yes: false,
+    dryRun: false,
+    showContents: false,
+    help: false
+  };
+  const seen = new Map<string, string>();
+
+  // Record each option once so `--docker --no-docker` is reported instead of
+  // silently letting the last one win
+  const set = (key: string, arg: string, apply: () => void) => {
+    const previous = seen.get(key);
+    if (previous !== undefined && previous !== arg) {
+      throw new ArgumentError(`Conflicting options ${previous} and ${arg}`);
+    }
+    seen.set(key, arg);
+    apply();
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '-y' || arg === '--yes') {
+      options.yes = true;
+      continue;
+    }
+
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+      continue;
+    }
+
+    if (arg === '--show-contents') {
+      options.showContents = true;
+      continue;
+    }
+
+    if (arg === '-h' || arg === '--help') {
+      options.help = true;
+      continue;
+    }
+
+    if (!arg.startsWith('-')) {
+      if (options.name !== undefined) {
+        throw new ArgumentError(`Unexpected argument "${arg}" (project name is already "${options.name}")`);
+      }
+      if (!PROJECT_NAME_PATTERN.test(arg)) {
+        throw new ArgumentError(
+          `Invalid project name "${arg}". Use only lowercase letters, numbers, hyphens, and underscores`
+        );
+      }
+      options.name = arg;
+      continue;
+    }
+
+    if (!arg.startsWith('--')) {
+      throw new ArgumentError(`Unknown option ${arg}`);
+    }
+
+    const eq = arg.indexOf('=');
+    const flag = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+    let value = eq === -1 ? undefined : arg.slice(eq + 1);
+
+    // Value options also accept the `--flag value` form
+    const takeValue = () => {
+      if (value === undefined && i + 1 < argv.length && !argv[i + 1].startsWith('-')) {
+        value = argv[++i];
+      }
+      return value;
+    };
+
+    if (flag === 'template') {
+      const template = takeValue();
+      if (!template) {
+        throw new ArgumentError('Option --template requires a value (minimal, api, full, a path or a URL)');
+      }
+      set('template', `--template=${template}`, () => { options.template = template; });
+      continue;
+    }
+
+    if (flag === 'var') {
+      const assignment = takeValue()?.match(/^(\w+)=(.*)$/s);
+      if (!assignment) {
+        throw new ArgumentError('Option --var expects <name>=<value>');
+      }
+      const [, key, raw] = assignment;
+      set(`var:${key}`, `--var ${key}=${raw}`, () => {
+        options.vars[key] = raw === 'true' ? true : raw === 'false' ? false : raw;
+      });
+      continue;
+    }
+
+    if (flag === 'preset' || flag === 'save-preset') {
+      const preset = takeValue();
+      if (!preset || !PRESET_NAME_PATTERN.test(preset)) {
+        throw new ArgumentError(`Option --${flag} requires a preset name (letters, numbers, hyphens, and underscores)`);
+      }
+      set(flag, `--${flag}=${preset}`, () => {
+        options[flag === 'preset' ? 'preset' : 'savePreset'] = preset;
+      });
+      continue;
+    }
+
+    if (flag === 'ci') {
+      const ci = parseChoice<CIProvider>(flag, takeValue(), CI_PROVIDERS);
+      set('ci', `--ci=${ci}`, () => { options.features.ci = ci; });
+      continue;
+    }
+
+    if (flag === 'pm') {
+      const pm = parseChoice(flag, takeValue(), PACKAGE_MANAGERS);
+      set('pm', `--pm=${pm}`, () => { options.packageManager = pm; });
+      continue;
+    }
+
+    const negated = flag.startsWith('no-');
+    const name = negated ? flag.slice(3) : flag;
+
+    if (name in FEATURE_FLAGS || name in BOOLEAN_FLAGS) {
+      if (value !== undefined) {
+        throw new ArgumentError(`Option --${flag} does not take a value`);
+      }
+      set(name, arg, () => {
+        if (name in FEATURE_FLAGS) {
+          options.features[FEATURE_FLAGS[name]] = !negated;
+        } else {
+          options[BOOLEAN_FLAGS[name]] = !negated;
+        }
+      });
+      continue;
+    }
+
+    throw new ArgumentError(`Unknown option --${flag}`);
+  }
+
+  validateOptions(options);
+  return options;
+}
+
+/**
+ * Reject combinations of options that cannot produce a working project
+ */
+function validateOptions(options: CliOptions) {
+  if (options.git === false && options.gitCommit === true) {
+    throw new ArgumentError('--git-commit cannot be used with --no-git');
+  }
+
+  if (options.showContents && !options.dryRun) {
+    throw new ArgumentError('--show-contents can only be used with --dry-run');
+  }
+
+  if (options.features.dockerCompose === true && options.features.docker === false) {
+    throw new ArgumentError('--docker-compose builds the app image and cannot be used with --no-docker');
+  }
+}
+
+/**
+ * Parse the arguments of `create-filament add` (after `add`)
+ */
+export function parseAddArgs(argv: string[]): AddOptions {
+  const options: AddOptions = {
+    features: {},
+    install: true,
+    skipEdited: false,
+    dryRun: false,
+    showContents: false,
+    help: false
+  };
+
+  const flags: Record<string, () => void> = {
+    '--no-install': () => { options.install = false; },
+    '--skip-edited': () => { options.skipEdited = true; },
+    '--dry-run': () => { options.dryRun = true; },
+    '--show-contents': () => { options.showContents = true; },
+    '--help': () => { options.help = true; },
+    '-h': () => { options.help = true; }
+  };
+
+  let added = 0;
+
+  for (const arg of argv) {
+    if (arg.startsWith('-')) {
+      if (!(arg in flags)) {
+        throw new ArgumentError(`Unknown option ${arg}`);
+      }
+      flags[arg]();
+      continue;
+    }
+
+    const feature = ADDABLE_FEATURES[arg];
+    if (!feature) {
+      throw new ArgumentError(
+        `Unknown feature "${arg}". Expected one of: ${Object.keys(ADDABLE_FEATURES).join(', ')}`
+      );
+    }
+    if (feature.ci && options.features.ci && feature.ci !== options.features.ci) {
+      throw new ArgumentError('Only one CI provider can be added');
+    }
+
+    Object.assign(options.features, feature);
+    added++;
+  }
+
+  if (added === 0 && !options.help) {
+    throw new ArgumentError('Name at least one feature to add');
+  }
+
+  if (options.showContents && !options.dryRun) {
+    throw new ArgumentError('--show-contents can only be used with --dry-run');
+  }
+
+  return options;
+}
+
+/**
+ * Parse the arguments of `create-filament generate` (after `generate`)
+ */
+export function parseGenerateArgs(argv: string[]): GenerateOptions {
+  const options: GenerateOptions = {
+    test: true,
+    dryRun: false,
+    showContents: false,
+    help: false
+  };
+
+  const flags: Record<string, () => void> = {
+    '--no-test': () => { options.test = false; },
+    '--dry-run': () => { options.dryRun = true; },
+    '--show-contents': () => { options.showContents = true; },
+    '--help': () => { options.help = true; },
+    '-h': () => { options.help = true; }
+  };
+
+  const positional: string[] = [];
+
+  for (const arg of argv) {
+    if (!arg.startsWith('-')) {
+      positional.push(arg);
+      continue;
+    }
+    if (!(arg in flags)) {
+      throw new ArgumentError(`Unknown option ${arg}`);
+    }
+    flags[arg]();
+  }
+
+  if (options.help) {
+    return options;
+  }
+
+  const [type, ...rest] = positional;
+
+  if (type === 'handler') {
+    const handler = rest.shift();
+    if (!HANDLER_KINDS.includes(handler as HandlerKind)) {
+      throw new ArgumentError(`Name the kind of handler to generate: ${HANDLER_KINDS.join(', ')}`);
+    }
+    options.kind = handler as HandlerKind;
+  } else if (type === 'route' || type === 'middleware') {
+    options.kind = type;
+  } else {
+    throw new ArgumentError(
+      type === undefined ? 'Name what to generate: route, middleware or handler' : `Cannot generate "${type}"`
+    );
+  }
+
+  if (rest.length === 0) {
+    throw new ArgumentError(`Name the ${type} to generate`);
+  }
+  if (rest.length > 1) {
+    throw new ArgumentError(`Unexpected argument "${rest[1]}"`);
+  }
+  if (!MODULE_NAME_PATTERN.test(rest[0])) {
+    throw new ArgumentError(
+      `Invalid name "${rest[0]}". Use lowercase letters and numbers, with words separated by hyphens`
+    );
+  }
+  options.name = rest[0];
+
+  if (options.showContents && !options.dryRun) {
+    throw new ArgumentError('--show-contents can only be used with --dry-run');
+  }
+
+  return options;
+}
+
+/**
+ * Parse the arguments of `create-filament upgrade` (after `upgrade`)
+ */
+export function parseUpgradeArgs(argv: string[]): UpgradeOptions {
+  const options: UpgradeOptions = {
+    writeConflicts: false,
+    install: true,
+    dryRun: false,
+    showContents: false,
+    help: false
+  };
+
+  const flags: Record<string, () => void> = {
+    '--write-conflicts': () => { options.writeConflicts = true; },
+    '--no-install': () => { options.install = false; },
+    '--dry-run': () => { options.dryRun = true; },
+    '--show-contents': () => { options.showContents = true; },
+    '--help': () => { options.help = true; },
+    '-h': () => { options.help = true; }
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inline] = arg.split(/=(.*)/s, 2);
+
+    if (flag === '--from' || flag === '--template') {
+      const value = inline ?? (i + 1 < argv.length && !argv[i + 1].startsWith('-') ? argv[++i] : undefined);
+      if (!value) {
+        throw new ArgumentError(`Option ${flag} requires a value`);
+      }
+      options[flag === '--from' ? 'from' : 'template'] = value;
+      continue;
+    }
+
+    if (!(arg in flags)) {
+      throw new ArgumentError(arg.startsWith('-') ? `Unknown option ${arg}` : `Unexpected argument "${arg}"`);
+    }
+    flags[arg]();
+  }
+
+  if (options.showContents && !options.dryRun) {
+    throw new ArgumentError('--show-contents can only be used with --dry-run');
+  }
+
+  return options;
+}
@@ -0,0 +1,180 @@
+/**
+ * Small edits to a project's TypeScript sources: adding an import, and adding
+ * statements to a function. They work on the text, matching braces while
+ * skipping strings and comments, so they survive reformatting but not every
+ * rewrite; callers ask the user to make the edit by hand when one fails.
+ */
+
+const ADD_MORE_PATTERN = /^\s*\/\/ Add more .* here\s*$/;
+
+// Index just past the string, template literal or comment at `index`, or
+// `index` itself if there is none there. Regex literals are not recognized.
+function skipLiteral(source: string, index: number): number {
+  const char = source[index];
+
+  if (char === '/' && source[index + 1] === '/') {
+    const end = source.indexOf('\n', index);
+    return end === -1 ? source.length : end;
+  }
+
+  if (char === '/' && source[index + 1] === '*') {
+    const end = source.indexOf('*/', index + 2);
+    return end === -1 ? source.length : end + 2;
+  }
+
+  if (char !== '\'' && char !== '"' && char !== '`') {
+    return index;
+  }
+
+  for (let i = index + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === char) {
+      return i + 1;
+    } else if (char === '`' && source[i] === '$' && source[i + 1] === '{') {
+      const close = matchBracket(source, i + 1);
+      if (close === -1) {
+        return source.length;
+      }
+      i = close;
+    }
+  }
+
+  return source.length;
+}
+
+// Index of the bracket closing the one at `open`, or -1
+function matchBracket(source: string, open: number): number {
+  const opening = source[open];
+  const closing = opening === '(' ? ')' : '}';
+  let depth = 0;
+
+  for (let i = open; i < source.length;) {
+    const skipped = skipLiteral(source, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+
+    if (source[i] === opening) {
+      depth++;
+    } else if (source[i] === closing && --depth === 0) {
+      return i;
+    }
+    i++;
+  }
+
+  return -1;
+}
+
+// Offset of the `(` opening a function declaration's parameters, or -1
+function findParameters(source: string, name: string): number {
+  const declaration = new RegExp(`^[ \\t]*(?:export\\s+)?(?:async\\s+)?function\\s+${name}\\s*\\(`, 'm').exec(source);
+  return declaration ? declaration.index + declaration[0].length - 1 : -1;
+}
+
+// Offsets of the braces around a function declaration's body
+function findFunctionBody(source: string, name: string) {
+  const params = findParameters(source, name);
+  if (params === -1) {
+    return undefined;
+  }
+
+  const paramsEnd = matchBracket(source, params);
+  const open = paramsEnd === -1 ? -1 : source.indexOf('{', paramsEnd);
+  const close = open === -1 ? -1 : matchBracket(source, open);
+
+  return close === -1 ? undefined : { open, close };
+}
+
+/**
+ * Add an import after the existing ones, unless the file already has it
+ */
+export function addImport(source: string, statement: string): string {
+  const lines = source.split('\n');
+
+  if (lines.some((line) => line.trim() === statement)) {
+    return source;
+  }
+
+  // Line after the last import, which may span several lines
+  let insertAt = 0;
+  for (let i = 0; i < lines.length; i++) {
+    if (/^import\s/.test(lines[i])) {
+      while (i < lines.length - 1 && !/;\s*$/.test(lines[i])) {
+        i++;
+      }
+      insertAt = i + 1;
+    }
+  }
+
+  lines.splice(insertAt, 0, statement);
+  return lines.join('\n');
+}
+
+/**
+ * Rename a function's parameter from `_<parameter>`, the mark for an unused
+ * one, to `<parameter>`, before adding statements that use it. Returns the
+ * source unchanged if there is no such parameter.
+ */
+export function useParameter(source: string, name: string, parameter: string): string {
+  const open = findParameters(source, name);
+  const close = open === -1 ? -1 : matchBracket(source, open);
+  if (close === -1) {
+    return source;
+  }
+
+  const params = source.slice(open, close).replace(new RegExp(`\\b_${parameter}\\b`), parameter);
+  return source.slice(0, open) + params + source.slice(close);
+}
+
+/**
+ * Add statements to the start or end of a function's body, indented to
+ * match. At the end they go before a trailing `// Add more ... here`
+ * comment. Returns undefined if the function can't be found.
+ */
+export function addToFunction(
+  source: string,
+  name: string,
+  statements: string[],
+  position: 'start' | 'end' = 'end'
+): string | undefined {
+  const body = findFunctionBody(source, name);
+  if (!body) {
+    return undefined;
+  }
+
+  // The first line is the rest of the line with `{`, the last is the
+  // indentation before `}`
+  const lines = source.slice(body.open + 1, body.close).split('\n');
+  if (lines.length < 2) {
+    return undefined;
+  }
+
+  const closingIndent = lines[lines.length - 1];
+  if (closingIndent.trim()) {
+    return undefined;
+  }
+
+  const block = statements.map((statement) => `${closingIndent}  ${statement}`);
+  const empty = lines.slice(1, -1).every((line) => !line.trim());
+
+  if (empty) {
+    lines.splice(1, lines.length - 2, ...block);
+  } else if (position === 'start') {
+    lines.splice(1, 0, ...block, '');
+  } else {
+    let last = lines.length - 2;
+    while (!lines[last].trim()) {
+      last--;
+    }
+
+    if (ADD_MORE_PATTERN.test(lines[last])) {
+      lines.splice(last, 0, ...block, '');
+    } else {
+      lines.splice(last + 1, 0, '', ...block);
+    }
+  }
+
+  return source.slice(0, body.open + 1) + lines.join('\n') + source.slice(body.close);
+}
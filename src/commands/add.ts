@@ -0,0 +1,119 @@
+import { relative, sep } from 'path';
+import chalk from 'chalk';
+import { ProjectConfig, ProjectFeatures } from '../types.js';
+import { AddOptions } from '../args.js';
+import { fetchTemplate } from '../sources.js';
+import { detectProject, projectManifestOf, ProjectError } from '../project.js';
+import { GENERATOR_VERSION } from '../manifest.js';
+import { renderProject } from '../generators/index.js';
+import { installChangedDependencies } from '../generators/setup.js';
+import { colorDiff, diskOutput, memoryOutput, printFileAction, printPlan } from '../output.js';
+import { EditedFile, planUpdate, UpdatePlan } from '../update.js';
+
+const FEATURE_LABELS: Record<keyof ProjectFeatures, string> = {
+  docker: 'Docker',
+  dockerCompose: 'Docker Compose',
+  ci: 'CI',
+  openapi: 'OpenAPI',
+  auth: 'authentication',
+  observability: 'observability'
+};
+
+function printEdited(projectPath: string, edited: EditedFile[]) {
+  for (const { path, diff } of edited) {
+    console.log(chalk.cyan(`\n──── ${relative(projectPath, path).split(sep).join('/')} ────`));
+    console.log(colorDiff(diff));
+  }
+}
+
+/**
+ * The project's features with the requested ones switched on
+ */
+function withFeatures(config: ProjectConfig, requested: Partial<ProjectFeatures>): ProjectConfig {
+  if (requested.ci && config.features.ci !== 'none' && config.features.ci !== requested.ci) {
+    throw new ProjectError(`This project already uses ${config.features.ci} CI`);
+  }
+
+  return { ...config, features: { ...config.features, ...requested } };
+}
+
+/**
+ * `create-filament add <feature...>`: retrofit features into the project in
+ * the current directory
+ */
+export async function addFeatures(options: AddOptions) {
+  const projectPath = process.cwd();
+  const config = detectProject(projectPath);
+  const target = withFeatures(config, options.features);
+
+  // The project is compared with this version's output, which only matches
+  // what the recorded version generated if they are the same
+  const generatedWith = projectManifestOf(projectPath)?.generatorVersion;
+  if (generatedWith && generatedWith !== GENERATOR_VERSION) {
+    throw new ProjectError(
+      `This project was generated by create-filament ${generatedWith}. Run create-filament upgrade first, or npx create-filament@${generatedWith} add`
+    );
+  }
+
+  const added = (Object.keys(target.features) as (keyof ProjectFeatures)[])
+    .filter((feature) => target.features[feature] !== config.features[feature])
+    .map((feature) => FEATURE_LABELS[feature]);
+
+  if (added.length === 0) {
+    console.log(chalk.green('\n✔ Everything requested is already set up\n'));
+    return true;
+  }
+
+  console.log(`\nAdding ${added.join(', ')} to ${chalk.cyan(config.name)} (${config.template} template)\n`);
+
+  // What the project looked like when generated, and what it should look
+  // like with the new features
+  const { template, cleanup } = await fetchTemplate(config.template);
+  let plan: UpdatePlan;
+  try {
+    plan = planUpdate(
+      projectPath,
+      renderProject(projectPath, config, template),
+      renderProject(projectPath, target, template)
+    );
+  } finally {
+    cleanup();
+  }
+
+  if (plan.edited.length > 0 && !options.skipEdited) {
+    console.error(chalk.red('✖ These files were edited since they were generated:'));
+    printEdited(projectPath, plan.edited);
+    console.error(chalk.red('\n✖ Nothing was changed.'));
+    console.error(`Apply the changes above by hand and re-run with ${chalk.cyan('--skip-edited')}.\n`);
+    return false;
+  }
+
+  const memory = options.dryRun ? memoryOutput() : undefined;
+  const output = memory ?? diskOutput();
+
+  for (const update of plan.updates) {
+    output.writeFile(update.path, update.content, { executable: update.executable });
+    if (!options.dryRun) {
+      printFileAction(projectPath, update.action, update.path);
+    }
+  }
+
+  const dependenciesChanged = plan.updates.some((update) => update.action === 'merge');
+
+  if (dependenciesChanged && options.install && !installChangedDependencies(projectPath, config, output)) {
+    return false;
+  }
+
+  if (plan.edited.length > 0) {
+    console.log(chalk.yellow('\n⚠ These files were edited since they were generated; apply the changes by hand:'));
+    printEdited(projectPath, plan.edited);
+  }
+
+  if (memory) {
+    printPlan(memory, projectPath, options.showContents);
+    return true;
+  }
+
+  console.log(chalk.green(`\n🎉 Added ${added.join(', ')}\n`));
+  return true;
+}
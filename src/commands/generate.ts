@@ -0,0 +1,234 @@
+import { relative, resolve, sep } from 'path';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import chalk from 'chalk';
+import { ModuleKind, ProjectConfig } from '../types.js';
+import { GenerateOptions } from '../args.js';
+import { TEMPLATES_DIR, renderContext } from '../templates.js';
+import { renderTemplate, TEMPLATE_SUFFIX } from '../render.js';
+import { detectProject, ProjectError } from '../project.js';
+import { addImport, addToFunction, useParameter } from '../codemods.js';
+import { diskOutput, FileAction, memoryOutput, printFileAction, printPlan, ProjectOutput } from '../output.js';
+
+const GENERATE_DIR = resolve(TEMPLATES_DIR, 'generate');
+
+// The integration tests the templates ship use 3101-3105
+const FIRST_TEST_PORT = 3106;
+
+/**
+ * Where each kind of module goes and which function registers it with the app
+ */
+interface ModuleLayout {
+  label: string;
+  dir: string;
+  registerSuffix: string;
+  registry: string;
+  registryFunction: string;
+
+  /**
+   * Error handlers go first so they answer before the catch-all handler
+   */
+  position: 'start' | 'end';
+  comment: (title: string) => string;
+}
+
+const MODULE_LAYOUTS: Record<ModuleKind, ModuleLayout> = {
+  route: {
+    label: 'route',
+    dir: 'src/routes',
+    registerSuffix: 'Routes',
+    registry: 'src/routes/resources.ts',
+    registryFunction: 'registerResourceRoutes',
+    position: 'end',
+    comment: (title) => `${title} routes`
+  },
+  middleware: {
+    label: 'middleware',
+    dir: 'src/middleware',
+    registerSuffix: '',
+    registry: 'src/middleware/index.ts',
+    registryFunction: 'registerMiddleware',
+    position: 'end',
+    comment: (title) => title
+  },
+  error: {
+    label: 'error handler',
+    dir: 'src/handlers',
+    registerSuffix: 'ErrorHandler',
+    registry: 'src/handlers/errors.ts',
+    registryFunction: 'registerErrorHandlers',
+    position: 'start',
+    comment: (title) => `${title} errors (before the catch-all handler)`
+  },
+  transform: {
+    label: 'transformer',
+    dir: 'src/handlers',
+    registerSuffix: 'Transformer',
+    registry: 'src/handlers/transforms.ts',
+    registryFunction: 'registerTransformers',
+    position: 'end',
+    comment: (title) => title
+  },
+  finalize: {
+    label: 'finalizer',
+    dir: 'src/handlers',
+    registerSuffix: 'Finalizer',
+    registry: 'src/handlers/finalizers.ts',
+    registryFunction: 'registerFinalizers',
+    position: 'end',
+    comment: (title) => title
+  }
+};
+
+export interface ModuleRequest {
+  kind: ModuleKind;
+  name: string;
+  test: boolean;
+
+  /**
+   * Port the integration test listens on
+   */
+  port: number;
+}
+
+export interface ModulePlan {
+  files: { path: string; content: string; action: FileAction }[];
+
+  /**
+   * Set when the registry couldn't be edited: the lines to add by hand
+   */
+  manual?: { path: string; lines: string[] };
+}
+
+/**
+ * Names derived from a module name such as `order-items`
+ */
+function moduleNames(request: ModuleRequest) {
+  const words = request.name.split('-');
+  const pascalName = words.map((word) => word[0].toUpperCase() + word.slice(1)).join('');
+  const phrase = words.join(' ');
+
+  return {
+    name: request.name,
+    phrase,
+    title: phrase[0].toUpperCase() + phrase.slice(1),
+    pascalName,
+    className: `${pascalName}Error`,
+    register: `register${pascalName}${MODULE_LAYOUTS[request.kind].registerSuffix}`,
+    path: `/${request.name}`,
+    port: request.port
+  };
+}
+
+function renderModuleTemplate(file: string, config: ProjectConfig, names: ReturnType<typeof moduleNames>) {
+  const source = resolve(GENERATE_DIR, file + TEMPLATE_SUFFIX);
+  return renderTemplate(readFileSync(source, 'utf-8'), { ...renderContext(config), module: names }, file);
+}
+
+/**
+ * Integration tests each listen on their own port: carry on from the highest
+ * one in use
+ */
+export function nextTestPort(projectPath: string) {
+  const dir = resolve(projectPath, 'tests/integration');
+  const ports = existsSync(dir)
+    ? readdirSync(dir)
+      .filter((file) => file.endsWith('.ts'))
+      .flatMap((file) => [...readFileSync(resolve(dir, file), 'utf-8').matchAll(/const PORT = (\d+);/g)])
+      .map((match) => Number(match[1]))
+    : [];
+
+  return Math.max(FIRST_TEST_PORT - 1, ...ports) + 1;
+}
+
+/**
+ * Work out the files to create and the registry edit for a new module,
+ * reading the project through `project`
+ */
+export function planModule(
+  projectPath: string,
+  config: ProjectConfig,
+  request: ModuleRequest,
+  project: ProjectOutput
+): ModulePlan {
+  const layout = MODULE_LAYOUTS[request.kind];
+  const names = moduleNames(request);
+  const plan: ModulePlan = { files: [] };
+
+  const create = (path: string, template: string) => {
+    const target = resolve(projectPath, path);
+    if (project.exists(target)) {
+      throw new ProjectError(`${path} already exists`);
+    }
+    plan.files.push({ path: target, content: renderModuleTemplate(template, config, names), action: 'create' });
+  };
+
+  create(`${layout.dir}/${request.name}.ts`, `${request.kind}.ts`);
+  if (request.test) {
+    create(`tests/integration/${request.name}.test.ts`, `${request.kind}.test.ts`);
+  }
+
+  const importStatement = `import { ${names.register} } from './${request.name}.js';`;
+  const statements = [`// ${layout.comment(names.title)}`, `${names.register}(app);`];
+
+  const registry = resolve(projectPath, layout.registry);
+  // Empty registries mark their `app` parameter unused
+  const source = project.exists(registry)
+    ? useParameter(project.readFile(registry).toString('utf-8'), layout.registryFunction, 'app')
+    : undefined;
+  const registered = source === undefined
+    ? undefined
+    : addToFunction(source, layout.registryFunction, statements, layout.position);
+
+  if (registered === undefined) {
+    plan.manual = { path: registry, lines: [importStatement, ...statements] };
+  } else {
+    plan.files.push({ path: registry, content: addImport(registered, importStatement), action: 'update' });
+  }
+
+  return plan;
+}
+
+/**
+ * `create-filament generate <kind> <name>`: add a module to the project in
+ * the current directory
+ */
+export function generateModule(options: GenerateOptions) {
+  const projectPath = process.cwd();
+  const config = detectProject(projectPath);
+  const kind = options.kind!;
+  const layout = MODULE_LAYOUTS[kind];
+
+  const plan = planModule(
+    projectPath,
+    config,
+    { kind, name: options.name!, test: options.test, port: nextTestPort(projectPath) },
+    diskOutput()
+  );
+
+  const memory = options.dryRun ? memoryOutput() : undefined;
+  const output = memory ?? diskOutput();
+
+  console.log('');
+  for (const file of plan.files) {
+    output.writeFile(file.path, file.content);
+    if (!memory) {
+      printFileAction(projectPath, file.action, file.path);
+    }
+  }
+
+  if (plan.manual) {
+    const registry = relative(projectPath, plan.manual.path).split(sep).join('/');
+    console.log(chalk.yellow(
+      `\n⚠ Could not find ${layout.registryFunction}() in ${registry}; register the ${layout.label} by hand:\n`
+    ));
+    console.log(plan.manual.lines.map((line) => `  ${line}`).join('\n'));
+  }
+
+  if (memory) {
+    printPlan(memory, projectPath, options.showContents);
+    return true;
+  }
+
+  console.log(chalk.green(`\n🎉 Generated ${layout.label} ${chalk.cyan(options.name)}\n`));
+  return true;
+}
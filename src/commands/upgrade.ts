@@ -0,0 +1,184 @@
+import { join, relative, resolve, sep } from 'path';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { execFileSync } from 'child_process';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ProjectConfig } from '../types.js';
+import { UpgradeOptions } from '../args.js';
+import { fetchTemplate, resolveTemplateSpec } from '../sources.js';
+import { detectProject, projectManifestOf, ProjectError } from '../project.js';
+import { GENERATOR_VERSION, PROJECT_MANIFEST_FILE } from '../manifest.js';
+import { renderProject } from '../generators/index.js';
+import { installChangedDependencies } from '../generators/setup.js';
+import { colorDiff, diskOutput, memoryOutput, PlannedFile, printFileAction, printPlan } from '../output.js';
+import { unifiedDiff } from '../diff.js';
+import { planUpgrade, UpgradePlan } from '../update.js';
+
+const IGNORED_ENTRIES = new Set(['.git', 'node_modules']);
+
+/**
+ * Command-line arguments that make create-filament generate `config` without
+ * prompting, installing or committing
+ */
+export function generatorArgs(config: ProjectConfig): string[] {
+  const flag = (name: string, enabled: boolean) => (enabled ? `--${name}` : `--no-${name}`);
+
+  return [
+    `--template=${config.template}`,
+    flag('docker', config.features.docker),
+    flag('docker-compose', config.features.dockerCompose),
+    `--ci=${config.features.ci}`,
+    flag('openapi', config.features.openapi),
+    flag('auth', config.features.auth),
+    flag('observability', config.features.observability),
+    `--pm=${config.packageManager}`,
+    ...Object.entries(config.vars).flatMap(([key, value]) => ['--var', `${key}=${value}`]),
+    '--no-git',
+    '--no-install',
+    '--yes'
+  ];
+}
+
+// Files under `dir`, keyed by the same path under `projectPath`
+function readTree(dir: string, projectPath: string, files = new Map<string, PlannedFile>(), root = dir) {
+  for (const entry of readdirSync(dir)) {
+    if (IGNORED_ENTRIES.has(entry)) {
+      continue;
+    }
+
+    const path = join(dir, entry);
+    const stats = statSync(path);
+
+    if (stats.isDirectory()) {
+      readTree(path, projectPath, files, root);
+    } else {
+      files.set(resolve(projectPath, relative(root, path)), {
+        content: readFileSync(path),
+        executable: (stats.mode & 0o111) !== 0
+      });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Generate the project with another version of create-filament, run through
+ * npm: a version number, or any package spec npm accepts (e.g. a tarball)
+ */
+function renderWithVersion(projectPath: string, config: ProjectConfig, version: string) {
+  const pkg = /^\d/.test(version) ? `create-filament@${version}` : version;
+  const spinner = ora(`Generating the project with ${pkg}...`).start();
+  const workDir = mkdtempSync(join(tmpdir(), 'create-filament-upgrade-'));
+
+  try {
+    execFileSync(
+      'npm',
+      ['exec', '--yes', `--package=${pkg}`, '--', 'create-filament', config.name, ...generatorArgs(config)],
+      { cwd: workDir, stdio: 'pipe' }
+    );
+
+    const files = readTree(resolve(workDir, config.name), projectPath);
+    spinner.succeed(`Generated the project with ${pkg}`);
+    return files;
+  } catch (error) {
+    spinner.fail(`Failed to generate the project with ${pkg}`);
+    const details = (error as { stderr?: Buffer }).stderr?.toString().trim() || (error as Error).message;
+    throw new ProjectError(`Cannot reproduce the project as ${pkg} generated it:\n${chalk.gray(details)}`);
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+function printConflicts(projectPath: string, plan: UpgradePlan) {
+  for (const { path, content } of plan.conflicts) {
+    const label = relative(projectPath, path).split(sep).join('/');
+    console.log(chalk.cyan(`\n──── ${label} ────`));
+    console.log(colorDiff(unifiedDiff(readFileSync(path, 'utf-8'), content.toString('utf-8'), label)));
+  }
+}
+
+/**
+ * `create-filament upgrade`: bring the project in the current directory up to
+ * this version's templates
+ */
+export async function upgradeProject(options: UpgradeOptions) {
+  const projectPath = process.cwd();
+  const config = detectProject(projectPath);
+  const from = options.from ?? projectManifestOf(projectPath)?.generatorVersion;
+  const target = { ...config, template: options.template ? resolveTemplateSpec(options.template) : config.template };
+
+  if (!from) {
+    throw new ProjectError(
+      `No ${PROJECT_MANIFEST_FILE} found. Pass --from=<version> with the create-filament version that generated this project`
+    );
+  }
+
+  if (from === GENERATOR_VERSION && target.template === config.template) {
+    console.log(chalk.green(`\n✔ Already up to date with create-filament ${GENERATOR_VERSION}\n`));
+    return true;
+  }
+
+  console.log(`\nUpgrading ${chalk.cyan(config.name)} from create-filament ${from} to ${GENERATOR_VERSION}\n`);
+
+  // The project as the old version generated it, and as this one would
+  const before = renderWithVersion(projectPath, config, from);
+  const { template, cleanup } = await fetchTemplate(target.template);
+  let plan: UpgradePlan;
+  try {
+    plan = planUpgrade(projectPath, before, renderProject(projectPath, target, template));
+  } finally {
+    cleanup();
+  }
+
+  if (plan.conflicts.length > 0 && !options.writeConflicts) {
+    console.error(chalk.red('\n✖ These files have changes that conflict with the upgrade:'));
+    printConflicts(projectPath, plan);
+    console.error(chalk.red('\n✖ Nothing was changed.'));
+    console.error(`Re-run with ${chalk.cyan('--write-conflicts')} to write them with conflict markers and resolve them by hand.\n`);
+    return false;
+  }
+
+  const memory = options.dryRun ? memoryOutput() : undefined;
+  const output = memory ?? diskOutput();
+
+  console.log('');
+  for (const update of plan.updates) {
+    output.writeFile(update.path, update.content, { executable: update.executable });
+    if (!memory) {
+      printFileAction(projectPath, update.action, update.path);
+    }
+  }
+  for (const conflict of plan.conflicts) {
+    output.writeFile(conflict.path, conflict.content);
+    if (!memory) {
+      printFileAction(projectPath, 'conflict', conflict.path);
+    }
+  }
+
+  for (const { path, reason } of plan.skipped) {
+    console.log(chalk.gray(`  skipped  ${relative(projectPath, path).split(sep).join('/')} (${reason})`));
+  }
+
+  const dependenciesChanged = plan.updates.some((update) => relative(projectPath, update.path) === 'package.json');
+
+  if (dependenciesChanged && options.install && !installChangedDependencies(projectPath, config, output)) {
+    return false;
+  }
+
+  if (memory) {
+    printPlan(memory, projectPath, options.showContents);
+    return true;
+  }
+
+  if (plan.conflicts.length > 0) {
+    const count = plan.conflicts.reduce((total, conflict) => total + conflict.conflicts, 0);
+    console.log(chalk.yellow(
+      `\n⚠ ${count} conflict(s) in ${plan.conflicts.length} file(s): resolve the <<<<<<< / >>>>>>> blocks by hand`
+    ));
+  }
+
+  console.log(chalk.green(`\n🎉 Upgraded to create-filament ${GENERATOR_VERSION}\n`));
+  return true;
+}
@@ -0,0 +1,119 @@
+/**
+ * Line-based unified diffs, for showing how generated files differ from what
+ * is already on disk
+ */
+
+export type Edit = { kind: ' ' | '-' | '+'; line: string };
+
+export function splitLines(text: string) {
+  return text === '' ? [] : text.replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Longest-common-subsequence edit script turning `a` into `b`. Common leading
+ * and trailing lines are skipped first, which keeps the table small for
+ * typical edits.
+ */
+export function diffLines(a: string[], b: string[]): Edit[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  const lengths = new Uint32Array((rows + 1) * (cols + 1));
+  const at = (i: number, j: number) => i * (cols + 1) + j;
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[at(i, j)] = a[start + i] === b[start + j]
+        ? lengths[at(i + 1, j + 1)] + 1
+        : Math.max(lengths[at(i + 1, j)], lengths[at(i, j + 1)]);
+    }
+  }
+
+  const edits: Edit[] = a.slice(0, start).map((line) => ({ kind: ' ', line }));
+
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      edits.push({ kind: ' ', line: a[start + i] });
+      i++;
+      j++;
+    } else if (i < rows && (j === cols || lengths[at(i + 1, j)] >= lengths[at(i, j + 1)])) {
+      // Removals before additions, as in other diff tools
+      edits.push({ kind: '-', line: a[start + i] });
+      i++;
+    } else {
+      edits.push({ kind: '+', line: b[start + j] });
+      j++;
+    }
+  }
+
+  return edits.concat(a.slice(endA).map((line) => ({ kind: ' ', line })));
+}
+
+/**
+ * Unified diff between two texts, or an empty string if they are equal
+ */
+export function unifiedDiff(before: string, after: string, label: string, context = 3): string {
+  if (before === after) {
+    return '';
+  }
+
+  const edits = diffLines(splitLines(before), splitLines(after));
+  const output = [`--- a/${label}`, `+++ b/${label}`];
+
+  // Line numbers in the old and new text at each edit
+  const positions: { oldLine: number; newLine: number }[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const edit of edits) {
+    positions.push({ oldLine, newLine });
+    if (edit.kind !== '+') oldLine++;
+    if (edit.kind !== '-') newLine++;
+  }
+
+  let index = 0;
+  while (index < edits.length) {
+    if (edits[index].kind === ' ') {
+      index++;
+      continue;
+    }
+
+    // Grow the hunk while changes are within 2 * context lines of each other
+    const hunkStart = Math.max(0, index - context);
+    let hunkEnd = index;
+    let unchanged = 0;
+    for (let k = index; k < edits.length && unchanged <= 2 * context; k++) {
+      if (edits[k].kind === ' ') {
+        unchanged++;
+      } else {
+        unchanged = 0;
+        hunkEnd = k;
+      }
+    }
+    hunkEnd = Math.min(edits.length - 1, hunkEnd + context);
+
+    const hunk = edits.slice(hunkStart, hunkEnd + 1);
+    const oldCount = hunk.filter((edit) => edit.kind !== '+').length;
+    const newCount = hunk.filter((edit) => edit.kind !== '-').length;
+    const { oldLine: oldStart, newLine: newStart } = positions[hunkStart];
+
+    output.push(`@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@`);
+    output.push(...hunk.map((edit) => edit.kind + edit.line));
+
+    index = hunkEnd + 1;
+  }
+
+  return output.join('\n');
+}
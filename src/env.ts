@@ -0,0 +1,187 @@
+import { ProjectConfig } from './types.js';
+
+/**
+ * The environment variables a generated project reads. One schema per
+ * enabled feature is written to the project's `src/config/schema.ts`, where
+ * it is validated at startup, and rendered as its `.env.example`.
+ */
+
+export type EnvType = 'string' | 'number' | 'boolean' | 'url';
+
+export interface EnvVariable {
+  name: string;
+  type: EnvType;
+  description: string;
+  default?: string;
+  choices?: string[];
+
+  /**
+   * Must be set, there's no default
+   */
+  required?: boolean;
+
+  /**
+   * Must be set to something other than the default in production
+   */
+  secret?: boolean;
+
+  /**
+   * Written (commented out) to `.env.example` for variables without a default
+   */
+  example?: string;
+}
+
+export interface EnvSection {
+  title: string;
+  variables: EnvVariable[];
+}
+
+export const LOG_LEVELS = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
+
+export function envSchema(config: ProjectConfig): EnvSection[] {
+  const sections: EnvSection[] = [
+    {
+      title: 'Server',
+      variables: [
+        { name: 'PORT', type: 'number', default: '3000', description: 'Port the server listens on' },
+        {
+          name: 'NODE_ENV',
+          type: 'string',
+          default: 'development',
+          choices: ['development', 'production', 'test'],
+          description: 'Runtime environment'
+        },
+        {
+          name: 'SHUTDOWN_TIMEOUT_MS',
+          type: 'number',
+          default: '10000',
+          description: 'How long shutdown waits for in-flight requests (ms)'
+        },
+        {
+          name: 'SHUTDOWN_DELAY_MS',
+          type: 'number',
+          default: '0',
+          description: 'How long shutdown keeps accepting requests after readiness fails (ms)'
+        }
+      ]
+    },
+    {
+      title: 'Logging',
+      variables: [
+        { name: 'LOG_LEVEL', type: 'string', default: 'info', choices: LOG_LEVELS, description: 'Minimum level logged' }
+      ]
+    }
+  ];
+
+  if (config.features.auth) {
+    sections.push(
+      {
+        title: 'Authentication',
+        variables: [
+          {
+            name: 'JWT_SECRET',
+            type: 'string',
+            default: 'your-secret-here-change-in-production',
+            secret: true,
+            description: 'Key JWTs are signed and verified with'
+          },
+          { name: 'JWT_EXPIRY', type: 'string', default: '7d', description: 'Lifetime of issued tokens' },
+          {
+            name: 'JWT_ISSUER',
+            type: 'string',
+            example: 'https://auth.example.com/',
+            description: 'Issuer required of tokens from an OAuth/OIDC provider'
+          },
+          {
+            name: 'JWT_AUDIENCE',
+            type: 'string',
+            example: config.name,
+            description: 'Audience required of tokens from an OAuth/OIDC provider'
+          }
+        ]
+      },
+      {
+        title: 'Redis',
+        variables: [
+          { name: 'REDIS_URL', type: 'url', default: 'redis://localhost:6379', description: 'Session store' }
+        ]
+      }
+    );
+  }
+
+  if (config.features.observability) {
+    sections.push({
+      title: 'OpenTelemetry',
+      variables: [
+        {
+          name: 'OTEL_EXPORTER_OTLP_ENDPOINT',
+          type: 'url',
+          example: 'http://localhost:4318',
+          description: 'OTLP/HTTP collector to export traces to (tracing is off when unset)'
+        },
+        { name: 'OTEL_SERVICE_NAME', type: 'string', default: config.name, description: 'Service name on exported spans' }
+      ]
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * `.env.example`: every variable with its default, and commented-out examples
+ * of the optional ones
+ */
+export function renderEnvExample(sections: EnvSection[]) {
+  return sections.map(({ title, variables }) => {
+    const lines = [`# ${title}`];
+
+    for (const variable of variables) {
+      lines.push(`# ${variable.description}`);
+      if (variable.default !== undefined) {
+        lines.push(`${variable.name}=${variable.default}`);
+      } else if (variable.required) {
+        lines.push(`${variable.name}=${variable.example ?? ''}`);
+      } else {
+        lines.push(`# ${variable.name}=${variable.example ?? ''}`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }).join('\n');
+}
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/**
+ * `src/config/schema.ts`: the schema as the project's `loadEnv()` reads it
+ */
+export function renderEnvSchema(sections: EnvSection[]) {
+  const entries = sections.map(({ title, variables }) => {
+    const lines = [`  // ${title}`];
+
+    for (const { name, type, description, default: value, choices, required, secret } of variables) {
+      const fields = [`type: ${quote(type)}`, `description: ${quote(description)}`];
+      if (value !== undefined) fields.push(`default: ${quote(value)}`);
+      if (choices) fields.push(`choices: [${choices.map(quote).join(', ')}]`);
+      if (required) fields.push('required: true');
+      if (secret) fields.push('secret: true');
+
+      // Wrapped like Prettier would, at the projects' 100 columns
+      const line = `  ${name}: { ${fields.join(', ')} },`;
+      lines.push(line.length <= 100 ? line : `  ${name}: {\n${fields.map((field) => `    ${field},\n`).join('')}  },`);
+    }
+
+    return lines.join('\n');
+  });
+
+  return `import { EnvSchema } from './env.js';
+
+/**
+ * Environment variables the app reads, validated at startup by loadEnv().
+ * Add your own here, and to .env.example.
+ */
+export const envSchema = {
+${entries.join('\n\n')}
+} as const satisfies EnvSchema;
+`;
+}
@@ -0,0 +1,223 @@
+import { resolve } from 'path';
+import { ProjectConfig } from '../types.js';
+import { ProjectOutput } from '../output.js';
+import { PACKAGE_MANAGER_PROFILES, runScript } from '../package-managers.js';
+
+export function generateCIFiles(projectPath: string, config: ProjectConfig, output: ProjectOutput) {
+  if (config.features.ci === 'none') {
+    return true;
+  }
+
+  const spinner = output.spinner('Generating CI/CD files...');
+  const pm = PACKAGE_MANAGER_PROFILES[config.packageManager];
+  const run = (script: string) => runScript(config.packageManager, script);
+
+  try {
+    if (config.features.ci === 'github') {
+      const githubPath = resolve(projectPath, '.github/workflows');
+
+      // pnpm has to be on the PATH before setup-node can cache its store; bun
+      // installs dependencies but the app and tests still run on Node
+      const setup = {
+        npm: `    - name: Setup Node.js
+      uses: actions/setup-node@v4
+      with:
+        node-version: '20'
+        cache: 'npm'`,
+        pnpm: `    - name: Setup pnpm
+      uses: pnpm/action-setup@v4
+    
+    - name: Setup Node.js
+      uses: actions/setup-node@v4
+      with:
+        node-version: '20'
+        cache: 'pnpm'`,
+        yarn: `    - name: Enable corepack
+      run: corepack enable
+    
+    - name: Setup Node.js
+      uses: actions/setup-node@v4
+      with:
+        node-version: '20'
+        cache: 'yarn'`,
+        bun: `    - name: Setup Bun
+      uses: oven-sh/setup-bun@v2
+    
+    - name: Setup Node.js
+      uses: actions/setup-node@v4
+      with:
+        node-version: '20'`
+      }[config.packageManager];
+
+      const ciWorkflow = `name: CI
+
+on:
+  push:
+    branches: [ main, develop ]
+  pull_request:
+    branches: [ main, develop ]
+
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    
+    steps:
+    - uses: actions/checkout@v4
+    
+${setup}
+    
+    - name: Install dependencies
+      run: ${pm.ciInstall}
+    
+    - name: Run linter
+      run: ${run('lint')}
+    
+    - name: Type check
+      run: ${run('type-check')}
+    
+    - name: Run tests
+      run: ${run('test')}
+    
+    - name: Check dependencies
+      run: ${run('depcheck')}
+    
+    - name: Build
+      run: ${run('build')}
+`;
+
+      let dockerJob = '';
+      if (config.features.docker) {
+        dockerJob = `
+  docker:
+    runs-on: ubuntu-latest
+    needs: test
+    if: github.ref == 'refs/heads/main'
+    
+    steps:
+    - uses: actions/checkout@v4
+    
+    - name: Build Docker image
+      run: docker build -t ${config.name}:latest .
+`;
+      }
+
+      output.writeFile(
+        resolve(githubPath, 'ci.yml'),
+        ciWorkflow + dockerJob
+      );
+    }
+
+    if (config.features.ci === 'gitlab') {
+      let stages = `stages:
+  - lint
+  - type-check
+  - test
+  - depcheck
+  - build
+`;
+
+      if (config.features.docker) {
+        stages += `  - docker
+`;
+      }
+
+      // Each package manager keeps its download cache inside the project
+      // directory so GitLab can cache it between jobs
+      const install = {
+        npm: { cache: '.npm/', script: ['npm ci --cache .npm --prefer-offline'] },
+        pnpm: {
+          cache: '.pnpm-store/',
+          script: ['corepack enable', 'pnpm config set store-dir .pnpm-store', pm.ciInstall]
+        },
+        yarn: {
+          cache: '.yarn/cache/',
+          script: ['corepack enable', `YARN_ENABLE_GLOBAL_CACHE=false YARN_CACHE_FOLDER=.yarn/cache ${pm.ciInstall}`]
+        },
+        bun: {
+          cache: '.bun-cache/',
+          script: ['npm install -g bun', `BUN_INSTALL_CACHE_DIR=.bun-cache ${pm.ciInstall}`]
+        }
+      }[config.packageManager];
+
+      const ciPipeline = `${stages}
+default:
+  image: node:20-alpine
+  cache:
+    key:
+      files:
+        - ${pm.lockfile}
+    paths:
+      - ${install.cache}
+  before_script:
+${install.script.map((line) => `    - ${line}`).join('\n')}
+
+workflow:
+  rules:
+    - if: $CI_PIPELINE_SOURCE == 'merge_request_event'
+    - if: $CI_COMMIT_BRANCH == 'main' || $CI_COMMIT_BRANCH == 'develop'
+
+lint:
+  stage: lint
+  script:
+    - ${run('lint')}
+
+type-check:
+  stage: type-check
+  script:
+    - ${run('type-check')}
+
+test:
+  stage: test
+  script:
+    - ${run('test')}
+
+depcheck:
+  stage: depcheck
+  script:
+    - ${run('depcheck')}
+
+build:
+  stage: build
+  script:
+    - ${run('build')}
+  artifacts:
+    paths:
+      - dist/
+    expire_in: 1 week
+`;
+
+      let dockerJob = '';
+      if (config.features.docker) {
+        dockerJob = `
+docker:
+  stage: docker
+  image: docker:24
+  services:
+    - docker:24-dind
+  variables:
+    DOCKER_TLS_CERTDIR: '/certs'
+  before_script:
+    - echo "$CI_REGISTRY_PASSWORD" | docker login -u "$CI_REGISTRY_USER" --password-stdin "$CI_REGISTRY"
+  script:
+    - docker build -t "$CI_REGISTRY_IMAGE:$CI_COMMIT_SHORT_SHA" -t "$CI_REGISTRY_IMAGE:latest" .
+    - docker push "$CI_REGISTRY_IMAGE:$CI_COMMIT_SHORT_SHA"
+    - docker push "$CI_REGISTRY_IMAGE:latest"
+  rules:
+    - if: $CI_COMMIT_BRANCH == 'main'
+`;
+      }
+
+      output.writeFile(
+        resolve(projectPath, '.gitlab-ci.yml'),
+        ciPipeline + dockerJob
+      );
+    }
+
+    spinner.succeed('Generated CI/CD files');
+    return true;
+  } catch (error) {
+    spinner.fail('Failed to generate CI/CD files');
+    console.error(error);
+    return false;
+  }
+}
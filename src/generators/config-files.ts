@@ -0,0 +1,161 @@
+import { resolve } from 'path';
+import { ProjectConfig } from '../types.js';
+import { ProjectOutput } from '../output.js';
+import { PACKAGE_MANAGER_PROFILES } from '../package-managers.js';
+import { envSchema, renderEnvExample, renderEnvSchema } from '../env.js';
+
+export function generateConfigFiles(projectPath: string, config: ProjectConfig, output: ProjectOutput) {
+  const spinner = output.spinner('Generating configuration files...');
+  const pm = PACKAGE_MANAGER_PROFILES[config.packageManager];
+
+  try {
+    // TypeScript config
+    const tsConfig = {
+      compilerOptions: {
+        declaration: true,
+        declarationMap: true,
+        esModuleInterop: true,
+        forceConsistentCasingInFileNames: true,
+        lib: ['ES2022'],
+        module: 'ES2022',
+        moduleResolution: 'node',
+        outDir: './dist',
+        paths: {
+          '@/*': ['./src/*']
+        },
+        resolveJsonModule: true,
+        rootDir: './src',
+        skipLibCheck: true,
+        sourceMap: true,
+        strict: true,
+        target: 'ES2022',
+        types: ["node"]
+      },
+      include: ['src/**/*'],
+      exclude: ['node_modules', 'dist', 'tests']
+    };
+
+    output.writeFile(
+      resolve(projectPath, 'tsconfig.json'),
+      JSON.stringify(tsConfig, null, 2)
+    );
+
+    // ESLint config (flat config for ESLint 9+)
+    const eslintConfig = `import tseslint from '@typescript-eslint/eslint-plugin';
+import tsparser from '@typescript-eslint/parser';
+
+export default [
+  {
+    files: ['src/**/*.ts'],
+    languageOptions: {
+      parser: tsparser,
+      parserOptions: {
+        ecmaVersion: 2022,
+        sourceType: 'module'
+      }
+    },
+    plugins: {
+      '@typescript-eslint': tseslint
+    },
+    rules: {
+      '@typescript-eslint/no-explicit-any': 'warn',
+      '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_' }]
+    }
+  }
+];
+`;
+
+    output.writeFile(
+      resolve(projectPath, 'eslint.config.js'),
+      eslintConfig
+    );
+
+    // Prettier config
+    const prettierConfig = {
+      semi: true,
+      trailingComma: 'es5',
+      singleQuote: true,
+      printWidth: 100,
+      tabWidth: 2
+    };
+
+    output.writeFile(
+      resolve(projectPath, '.prettierrc'),
+      JSON.stringify(prettierConfig, null, 2)
+    );
+
+    // .gitignore
+    const gitignore = `node_modules/
+dist/
+*.log
+.env
+.DS_Store
+coverage/
+.vscode/
+.idea/
+*.swp
+*.swo
+${config.packageManager === 'yarn' ? `.pnp.*
+.yarn/*
+!.yarn/patches
+!.yarn/plugins
+!.yarn/releases
+` : ''}`;
+
+    output.writeFile(resolve(projectPath, '.gitignore'), gitignore);
+
+    // Yarn 4 defaults to Plug'n'Play, which tsx and node --test don't support
+    if (config.packageManager === 'yarn') {
+      output.writeFile(resolve(projectPath, '.yarnrc.yml'), 'nodeLinker: node-modules\n');
+    }
+
+    // Environment variables, validated by src/config/env.ts at startup
+    const env = envSchema(config);
+    output.writeFile(resolve(projectPath, '.env.example'), renderEnvExample(env));
+    output.writeFile(resolve(projectPath, 'src/config/schema.ts'), renderEnvSchema(env));
+
+    // Husky and lint-staged
+    const huskyPath = resolve(projectPath, '.husky');
+
+    const preCommitHook = `#!/usr/bin/env sh
+. "$(dirname -- "$0")/_/husky.sh"
+
+${pm.exec} lint-staged
+`;
+
+    output.writeFile(resolve(huskyPath, 'pre-commit'), preCommitHook, { executable: true });
+
+    const commitMsgHook = `#!/usr/bin/env sh
+. "$(dirname -- "$0")/_/husky.sh"
+
+${pm.exec} commitlint --edit $1
+`;
+
+    output.writeFile(resolve(huskyPath, 'commit-msg'), commitMsgHook, { executable: true });
+
+    // lint-staged config
+    const lintStagedConfig = {
+      '*.ts': [
+        'eslint --fix',
+        'prettier --write'
+      ]
+    };
+
+    output.writeFile(
+      resolve(projectPath, '.lintstagedrc'),
+      JSON.stringify(lintStagedConfig, null, 2)
+    );
+
+    // commitlint config
+    const commitlintConfig = `export default { extends: ['@commitlint/config-conventional'] };`;
+
+    output.writeFile(resolve(projectPath, 'commitlint.config.js'), commitlintConfig);
+
+    spinner.succeed('Generated configuration files');
+    return true;
+  } catch (error) {
+    spinner.fail('Failed to generate configuration files');
+    console.error(error);
+    return false;
+  }
+}
@@ -0,0 +1,236 @@
+import { resolve } from 'path';
+import { ProjectConfig } from '../types.js';
+import { ProjectOutput } from '../output.js';
+import { PACKAGE_MANAGER_PROFILES, runScript } from '../package-managers.js';
+import { toYaml, YamlValue } from '../yaml.js';
+
+type Service = Record<string, YamlValue>;
+
+/**
+ * docker-compose.yml, plus the configuration files of the services it runs
+ *
+ * `app` runs the production image; `dev` (`docker compose up dev`) runs the
+ * build stage with `src/` mounted and hot reload. Both read `.env` when there
+ * is one and wait for their dependencies' healthchecks.
+ */
+function writeCompose(projectPath: string, config: ProjectConfig, output: ProjectOutput) {
+  const services: Record<string, Service> = {};
+  const volumes: Record<string, YamlValue> = {};
+  const environment: Record<string, string> = {};
+  const dependsOn: Record<string, { condition: string }> = {};
+
+  if (config.features.auth) {
+    environment.REDIS_URL = 'redis://redis:6379';
+    dependsOn.redis = { condition: 'service_healthy' };
+
+    services.redis = {
+      image: 'redis:7-alpine',
+      ports: ['6379:6379'],
+      volumes: ['redis-data:/data'],
+      healthcheck: {
+        test: ['CMD', 'redis-cli', 'ping'],
+        interval: '5s',
+        timeout: '3s',
+        retries: 5
+      },
+      restart: 'unless-stopped'
+    };
+    volumes['redis-data'] = {};
+  }
+
+  if (config.features.observability) {
+    environment.OTEL_EXPORTER_OTLP_ENDPOINT = 'http://otel-collector:4318';
+    dependsOn['otel-collector'] = { condition: 'service_started' };
+
+    // The collector image has no shell to run a healthcheck with
+    services['otel-collector'] = {
+      image: 'otel/opentelemetry-collector:0.111.0',
+      command: ['--config=/etc/otelcol/config.yaml'],
+      ports: ['4318:4318'],
+      volumes: ['./docker/otel-collector.yaml:/etc/otelcol/config.yaml:ro'],
+      restart: 'unless-stopped'
+    };
+    services.prometheus = {
+      image: 'prom/prometheus:v2.54.1',
+      ports: ['9090:9090'],
+      volumes: [
+        './docker/prometheus.yml:/etc/prometheus/prometheus.yml:ro',
+        'prometheus-data:/prometheus'
+      ],
+      healthcheck: {
+        test: ['CMD', 'wget', '-q', '--spider', 'http://localhost:9090/-/ready'],
+        interval: '10s',
+        timeout: '3s',
+        retries: 5
+      },
+      restart: 'unless-stopped'
+    };
+    services.grafana = {
+      image: 'grafana/grafana:11.2.0',
+      ports: ['3001:3000'],
+      environment: {
+        GF_AUTH_ANONYMOUS_ENABLED: 'true',
+        GF_AUTH_ANONYMOUS_ORG_ROLE: 'Admin'
+      },
+      volumes: [
+        './docker/grafana/datasources.yml:/etc/grafana/provisioning/datasources/datasources.yml:ro',
+        'grafana-data:/var/lib/grafana'
+      ],
+      depends_on: { prometheus: { condition: 'service_healthy' } },
+      restart: 'unless-stopped'
+    };
+    volumes['prometheus-data'] = {};
+    volumes['grafana-data'] = {};
+
+    output.writeFile(resolve(projectPath, 'docker/otel-collector.yaml'), toYaml({
+      receivers: { otlp: { protocols: { http: { endpoint: '0.0.0.0:4318' } } } },
+      processors: { batch: {} },
+      // Swap for your tracing backend (Jaeger, Tempo, a vendor's OTLP endpoint)
+      exporters: { debug: {} },
+      service: {
+        pipelines: { traces: { receivers: ['otlp'], processors: ['batch'], exporters: ['debug'] } }
+      }
+    }));
+    output.writeFile(resolve(projectPath, 'docker/prometheus.yml'), toYaml({
+      global: { scrape_interval: '15s' },
+      scrape_configs: [
+        {
+          job_name: config.name,
+          metrics_path: '/metrics',
+          static_configs: [{ targets: ['app:3000'] }]
+        }
+      ]
+    }));
+    output.writeFile(resolve(projectPath, 'docker/grafana/datasources.yml'), toYaml({
+      apiVersion: 1,
+      datasources: [
+        {
+          name: 'Prometheus',
+          type: 'prometheus',
+          access: 'proxy',
+          url: 'http://prometheus:9090',
+          isDefault: true
+        }
+      ]
+    }));
+  }
+
+  // Compose reads .env for ${...} substitutions; env_file passes it on to the app
+  const envFile = [{ path: '.env', required: false }];
+  const depends = Object.keys(dependsOn).length > 0 ? dependsOn : undefined;
+
+  const app: Service = {
+    build: '.',
+    ports: ['3000:3000'],
+    env_file: envFile,
+    environment: {
+      NODE_ENV: 'production',
+      LOG_LEVEL: 'info',
+      ...environment,
+      // The app refuses to start in production without a real secret
+      ...(config.features.auth && { JWT_SECRET: '${JWT_SECRET:?Set JWT_SECRET in .env}' })
+    },
+    depends_on: depends,
+    restart: 'unless-stopped'
+  };
+
+  const dev: Service = {
+    profiles: ['dev'],
+    build: { context: '.', target: 'builder' },
+    command: runScript(config.packageManager, 'dev'),
+    ports: ['3000:3000'],
+    env_file: envFile,
+    environment: { NODE_ENV: 'development', ...environment },
+    volumes: ['./src:/app/src'],
+    depends_on: depends
+  };
+
+  const compose = {
+    services: { app, dev, ...services },
+    volumes: Object.keys(volumes).length > 0 ? volumes : undefined
+  };
+
+  output.writeFile(resolve(projectPath, 'docker-compose.yml'), toYaml(compose));
+}
+
+export function generateDockerFiles(projectPath: string, config: ProjectConfig, output: ProjectOutput) {
+  if (!config.features.docker && !config.features.dockerCompose) {
+    return true;
+  }
+
+  const spinner = output.spinner('Generating Docker files...');
+
+  try {
+    if (config.features.docker) {
+      const pm = PACKAGE_MANAGER_PROFILES[config.packageManager];
+
+      // pnpm and yarn come from corepack (pinned by package.json's
+      // packageManager field); bun is copied from its official image
+      const setup = {
+        npm: '',
+        pnpm: '\n# Package manager\nRUN corepack enable\n',
+        yarn: '\n# Package manager\nRUN corepack enable\n',
+        bun: '\n# Package manager\nCOPY --from=oven/bun:1-alpine /usr/local/bin/bun /usr/local/bin/bun\n'
+      }[config.packageManager];
+
+      const dockerfile = `# Build stage
+FROM node:20-alpine AS builder
+
+WORKDIR /app
+${setup}
+# Copy package files
+COPY ${pm.dockerManifests} ./
+
+# Install dependencies
+RUN ${pm.ciInstall}
+
+# Copy source
+COPY . .
+
+# Build
+RUN ${runScript(config.packageManager, 'build')}
+
+# Runtime stage
+FROM node:20-alpine
+
+WORKDIR /app
+${setup}
+# Copy package files
+COPY ${pm.dockerManifests} ./
+
+# Install production dependencies only
+RUN ${pm.productionInstall}
+
+# Copy built files
+COPY --from=builder /app/dist ./dist
+
+# Create non-root user
+RUN addgroup -g 1001 -S nodejs && \\
+    adduser -S nodejs -u 1001
+
+USER nodejs
+
+EXPOSE 3000
+
+HEALTHCHECK --interval=30s --timeout=3s --start-period=5s --retries=3 \\
+  CMD node -e "require('http').get('http://localhost:3000/livez', (r) => {process.exit(r.statusCode === 200 ? 0 : 1)})"
+
+CMD ["node", "dist/index.js"]
+`;
+
+      // .dockerignore comes from the docker feature overlay
+      output.writeFile(resolve(projectPath, 'Dockerfile'), dockerfile);
+    }
+
+    if (config.features.dockerCompose) {
+      writeCompose(projectPath, config, output);
+    }
+
+    spinner.succeed('Generated Docker files');
+    return true;
+  } catch (error) {
+    spinner.fail('Failed to generate Docker files');
+    console.error(error);
+    return false;
+  }
+}
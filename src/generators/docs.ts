@@ -0,0 +1,426 @@
+import { resolve } from 'path';
+import { ProjectConfig } from '../types.js';
+import { ProjectOutput } from '../output.js';
+import { PACKAGE_MANAGER_PROFILES, runScript } from '../package-managers.js';
+
+export function generateREADME(projectPath: string, config: ProjectConfig, output: ProjectOutput) {
+  const spinner = output.spinner('Generating documentation...');
+  const pm = PACKAGE_MANAGER_PROFILES[config.packageManager];
+  const run = (script: string, args?: string) => runScript(config.packageManager, script, args);
+
+  try {
+    const readme = `# ${config.name}
+
+A Filament API application.
+
+## Quick Start
+
+\`\`\`bash
+# Install dependencies
+${pm.install}
+
+# Start development server
+${run('dev')}
+
+# Server running at http://localhost:3000
+\`\`\`
+
+## Available Scripts
+
+- \`${run('dev')}\` - Start with hot reload
+- \`${run('test')}\` - Run tests
+- \`${run('build')}\` - Build for production
+- \`${run('start')}\` - Run production build
+- \`${run('lint')}\` - Lint code
+- \`${run('format')}\` - Format code
+${config.features.docker ? `- \`${run('docker:build')}\` - Build Docker image\n` : ''}${config.features.dockerCompose ? `- \`${run('docker:up')}\` - Run with Docker Compose\n- \`${run('docker:dev')}\` - Run the dev server in Docker, with \`src/\` mounted\n` : ''}
+## Project Structure
+
+\`\`\`text
+${config.name}/
+├── src/
+│   ├── meta/           # Metadata interface and defaults
+│   ├── middleware/     # Middleware functions
+│   ├── routes/         # Route definitions
+│   ├── errors/         # HTTP errors
+│   ├── logging/        # Logger + request IDs
+│   ├── health/         # Readiness checks
+│   ├── lifecycle/      # Graceful shutdown
+│   ├── validation/     # Request schemas
+│   ├── handlers/       # Post-request handlers
+│   ├── config/         # Application configuration
+│   └── index.ts        # Entry point
+├── tests/
+│   ├── integration/    # Integration tests
+│   └── unit/          # Unit tests
+${config.features.docker ? '├── Dockerfile\n' : ''}${config.features.dockerCompose ? '├── docker-compose.yml\n' : ''}└── package.json
+\`\`\`
+
+## Endpoints
+
+- \`GET /livez\` - Liveness: the process is serving requests
+- \`GET /readyz\` - Readiness: every health check passes (503 otherwise, and while shutting down)
+
+${config.features.auth ? `
+## Authentication
+
+This project includes authentication middleware in \`src/middleware/auth.ts\`. It reads
+\`requiresAuth\`, \`requiresSession\` and \`role\` from each endpoint's metadata:
+
+- Bearer JWTs (HS256, signed with \`JWT_SECRET\`) are verified and the user is attached as \`req.user\`
+- Tokens from an OAuth/OIDC provider are accepted when \`JWT_ISSUER\`/\`JWT_AUDIENCE\` match
+- Session cookies (\`sid\`) are looked up in Redis
+- Missing or invalid credentials return 401, insufficient roles return 403
+
+Use the \`AUTHENTICATED\` and \`ADMIN\` presets from \`src/meta/defaults.ts\` on your routes, and
+\`signToken()\` to issue tokens.
+
+Configure in \`.env\`:
+
+\`\`\`bash
+JWT_SECRET=your-secret-here
+REDIS_URL=redis://localhost:6379
+\`\`\`
+` : ''}
+
+${config.features.openapi ? `
+## API Documentation
+
+OpenAPI documentation available at: [http://localhost:3000/docs](http://localhost:3000/docs)
+
+The OpenAPI 3.1 document is built from each route's \`openapi\` metadata (summary, description, tags)
+and served at [http://localhost:3000/openapi.json](http://localhost:3000/openapi.json).
+
+Export it for client generation:
+
+\`\`\`bash
+${run('openapi:export', 'openapi.json')}
+\`\`\`
+` : ''}
+
+${config.features.observability ? `
+## Observability
+
+This project includes OpenTelemetry tracing and Prometheus metrics (see \`src/observability/\`).
+
+- Set \`OTEL_EXPORTER_OTLP_ENDPOINT\` to export a span per request over OTLP/HTTP
+- \`http_request_duration_seconds\` and \`http_requests_total\` are labelled by method, route and status
+
+Metrics endpoint: [http://localhost:3000/metrics](http://localhost:3000/metrics)
+${config.features.dockerCompose ? `
+\`${run('docker:up')}\` also starts an OpenTelemetry collector (traces are logged; point its exporter at your
+backend in \`docker/otel-collector.yaml\`), Prometheus at [http://localhost:9090](http://localhost:9090) and
+Grafana at [http://localhost:3001](http://localhost:3001).
+` : ''}` : ''}
+
+## Database Integration
+
+Filament doesn't include a database ORM by design. Choose what works for you:
+
+### Recommended Options
+
+**Prisma** (TypeScript-first, great DX)
+
+\`\`\`bash
+${pm.add} prisma @prisma/client
+${pm.exec} prisma init
+\`\`\`
+
+**Drizzle** (Lightweight, SQL-like)
+
+\`\`\`bash
+${pm.add} drizzle-orm
+\`\`\`
+
+See [ARCHITECTURE.md](./ARCHITECTURE.md) for integration examples.
+
+## Development
+
+1. Copy \`.env.example\` to \`.env\` and configure (variables are declared and validated in \`src/config/schema.ts\`)
+2. Run \`${run('dev')}\`
+3. Make changes - server auto-reloads
+
+## Production
+
+\`\`\`bash
+${run('build')}
+${run('start')}
+\`\`\`
+
+${config.features.docker ? `
+Or with Docker:
+
+\`\`\`bash
+docker build -t ${config.name} .
+docker run -p 3000:3000 ${config.name}
+\`\`\`
+` : ''}
+
+## Testing
+
+\`\`\`bash
+${run('test')}
+\`\`\`
+
+## License
+
+ISC
+`.replace(/\n{2,}/g, '\n\n');
+
+    output.writeFile(resolve(projectPath, 'README.md'), readme);
+
+    // Generate ARCHITECTURE.md
+    const architecture = `# Architecture
+
+## Metadata-Driven Design
+
+This Filament application uses metadata to control middleware behavior.
+
+### Metadata Interface
+
+See \`src/meta/index.ts\` for your metadata interface definition.
+
+### How It Works
+
+1. Define default metadata in \`src/meta/defaults.ts\`
+2. Override per-endpoint in route definitions
+3. Middleware inspects \`req.endpointMeta\` to decide behavior
+
+Example:
+
+\`\`\`typescript
+// src/routes/users.ts
+app.get('/users', 
+  { requiresAuth: true, rateLimit: 50 },
+  async (req, res) => {
+    res.json({ users: [] });
+  }
+);
+
+// src/middleware/auth.ts
+app.use(async (req, res, next) => {
+  if (req.endpointMeta.requiresAuth) {
+    // Perform authentication
+  }
+  await next();
+});
+\`\`\`
+
+## Request Lifecycle
+
+1. Incoming request
+2. Route matching → \`req.endpointMeta\` populated
+3. Middleware chain executes
+4. Route handler executes
+5. Response transformers (success)
+6. Error handlers (if error)
+7. Finalizers (always)
+8. Response sent
+
+## Adding Routes
+
+\`\`\`bash
+${pm.dlx} create-filament generate route orders
+\`\`\`
+
+This creates \`src/routes/orders.ts\` with a \`registerOrdersRoutes(app)\` function, calls it
+from \`registerRoutes\` in \`src/routes/index.ts\` and adds \`tests/integration/orders.test.ts\`.
+
+To add a route module by hand:
+
+1. Create route file in \`src/routes/\`
+2. Export a mount function
+3. Import and call in \`src/routes/index.ts\`
+
+## Adding Middleware
+
+\`\`\`bash
+${pm.dlx} create-filament generate middleware tenant
+\`\`\`
+
+This creates \`src/middleware/tenant.ts\`, registers it in \`registerMiddleware\` in
+\`src/middleware/index.ts\` and adds an integration test. Middleware should check
+\`req.endpointMeta\` for configuration.
+
+## Adding Handlers
+
+\`\`\`bash
+${pm.dlx} create-filament generate handler error payment-failed
+${pm.dlx} create-filament generate handler transform cache-headers
+${pm.dlx} create-filament generate handler finalize audit-log
+\`\`\`
+
+Each creates a module in \`src/handlers/\`, registers it in \`errors.ts\`, \`transforms.ts\` or
+\`finalizers.ts\` and adds an integration test. Error handlers are registered before the
+catch-all handler; the generated one answers for its own error class (\`PaymentFailedError\`).
+
+## Logging
+
+Log through \`logger\` from \`src/logging/index.ts\`, or \`req.log\` inside a request. The request
+context middleware (\`src/middleware/request-context.ts\`) runs first and gives every request:
+
+- \`req.id\`: the caller's \`X-Request-Id\`, the trace ID of its \`traceparent\`, or a new UUID,
+  echoed back in the \`X-Request-Id\` response header
+- \`req.startTime\`: when the request started, for durations
+- \`req.log\`: a child logger that adds \`requestId\` to every line
+
+\`req.log\` also follows the endpoint's \`logging\` metadata. \`logging.level\` is a threshold
+(\`LOG_LEVEL\` still applies on top): \`info\` logs each request's start and completion, \`debug\`
+adds the headers and body to the start, \`warn\` logs client errors (4xx) and \`error\` failures.
+\`logging.redact\` lists request fields to mask; \`Authorization\` and \`Cookie\` headers always are:
+
+\`\`\`typescript
+app.post('/login', {
+  ...PUBLIC,
+  logging: { level: 'debug', redact: ['body.password', 'headers.x-api-key'] },
+}, handler);
+\`\`\`
+
+Error responses carry the same ID, so a report from a client can be matched to its log lines.
+
+## Health Checks
+
+\`GET /readyz\` runs the checks registered with \`registerHealthCheck()\` from
+\`src/health/index.ts\` side by side and reports each one's status and latency:
+
+\`\`\`json
+{ "status": "pass", "checks": { "redis": { "status": "pass", "latencyMs": 2 } } }
+\`\`\`
+
+A check throws when its dependency is unusable. Register yours next to the built-in ones in
+\`src/index.ts\`:
+
+\`\`\`typescript
+registerHealthCheck('database', () => db.query('select 1'), { timeout: 1000 });
+\`\`\`
+
+A failing check makes \`/readyz\` answer 503, unless it was registered with
+\`{ critical: false }\`: then it is reported as \`warn\`. Readiness also fails as soon as the server
+starts shutting down, so load balancers stop sending it requests. \`GET /livez\` runs no checks:
+a failing dependency should take the service out of rotation, not get it restarted.
+
+## Shutdown
+
+On SIGTERM or SIGINT, \`src/lifecycle/index.ts\` fails readiness, keeps accepting requests for
+\`SHUTDOWN_DELAY_MS\` while load balancers catch up, waits for in-flight requests until
+\`SHUTDOWN_TIMEOUT_MS\` after the signal and then runs the shutdown hooks. Uncaught
+exceptions and unhandled rejections are logged and shut down the same way, exiting with 1. A
+second signal exits immediately.
+
+Anything holding connections, timers or buffers registers a hook in \`src/index.ts\`:
+
+\`\`\`typescript
+onShutdown('jobs', () => scheduler.stop());
+\`\`\`
+
+Hooks run from the lowest \`order\` (default 0) to the highest, and in registration order within
+the same order. Each gets 5 seconds; failures are logged and the remaining hooks still run.
+
+## Errors
+
+Throw the errors in \`src/errors/index.ts\` from routes and middleware instead of writing
+error responses by hand:
+
+\`\`\`typescript
+throw new NotFoundError(\`Order \${req.params.id} not found\`);
+throw new ValidationError([{ field: 'email', message: 'must be an email address' }]);
+\`\`\`
+
+\`BadRequestError\` (400), \`UnauthorizedError\` (401), \`ForbiddenError\` (403),
+\`NotFoundError\` (404), \`ConflictError\` (409), \`ValidationError\` (422) and
+\`TooManyRequestsError\` (429) all extend \`HttpError\`. The catch-all handler in
+\`src/handlers/errors.ts\` answers with RFC 7807 \`application/problem+json\`:
+
+\`\`\`json
+{
+  "type": "about:blank",
+  "title": "Unprocessable Content",
+  "status": 422,
+  "detail": "The request is invalid",
+  "instance": "/users",
+  "requestId": "5f0c…",
+  "errors": [{ "field": "email", "message": "must be an email address" }]
+}
+\`\`\`
+
+Anything else thrown is a 500 without details; stack traces are only included when
+\`NODE_ENV\` is \`development\`. Custom error handlers can reply the same way with
+\`sendProblem(req, res, error)\`.
+
+## Request Validation
+
+Give an endpoint \`validate\` metadata with schemas for its \`body\`, \`query\` and \`params\`
+(a subset of JSON Schema, see \`src/validation/index.ts\`). \`src/middleware/validate.ts\`
+checks each request against them and throws a \`ValidationError\` listing every invalid
+field, so the route only runs with valid input:
+
+\`\`\`typescript
+const createOrder = {
+  body: {
+    type: 'object',
+    properties: {
+      sku: { type: 'string', minLength: 1 },
+      quantity: { type: 'integer', minimum: 1 },
+    },
+    required: ['sku', 'quantity'],
+    additionalProperties: false,
+  },
+} as const satisfies RequestSchemas;
+
+app.post('/orders', { ...AUTHENTICATED, validate: createOrder }, async (req, res) => {
+  const { body } = validated(req, createOrder); // { sku: string; quantity: number }
+});
+\`\`\`
+
+Query strings and path parameters are parsed into the numbers and booleans their schemas
+declare. Declare schemas \`as const\` so \`validated()\` can type the input from them.
+${config.features.openapi ? `
+The OpenAPI document at \`/openapi.json\` describes parameters and request bodies from the
+same schemas.
+` : ''}
+## Database Integration
+
+Example with Prisma:
+
+\`\`\`typescript
+// src/db/index.ts
+import { PrismaClient } from '@prisma/client';
+export const db = new PrismaClient();
+
+// src/routes/users.ts
+import { db } from '../db';
+
+app.get('/users', PUBLIC, async (req, res) => {
+  const users = await db.user.findMany();
+  res.json({ users });
+});
+\`\`\`
+
+## Testing
+
+Tests use Node's native test runner with test-battery for assertions.
+
+Example:
+
+\`\`\`typescript
+import { describe, it } from 'node:test';
+import { expect } from 'test-battery';
+
+describe('Users API', () => {
+  it('should list users', async () => {
+    // Test implementation
+  });
+});
+\`\`\`
+`.replace(/\n{2,}/g, '\n\n');
+
+    output.writeFile(resolve(projectPath, 'ARCHITECTURE.md'), architecture);
+
+    spinner.succeed('Generated documentation');
+    return true;
+  } catch (error) {
+    spinner.fail('Failed to generate documentation');
+    console.error(error);
+    return false;
+  }
+}
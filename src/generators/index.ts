@@ -0,0 +1,52 @@
+import { ProjectConfig } from '../types.js';
+import { Template } from '../templates.js';
+import { PlannedFile, ProjectOutput, memoryOutput } from '../output.js';
+import { createProjectStructure } from './structure.js';
+import { copyTemplateFiles } from './template-files.js';
+import { generatePackageJson } from './package-json.js';
+import { generateConfigFiles } from './config-files.js';
+import { generateDockerFiles } from './docker.js';
+import { generateCIFiles } from './ci.js';
+import { generateREADME } from './docs.js';
+import { generateManifest } from './manifest.js';
+import { installDependencies, initializeGit } from './setup.js';
+
+/**
+ * Steps that generate a project, in order. Each returns false on failure,
+ * after reporting it.
+ */
+export function generationSteps(projectPath: string, config: ProjectConfig, template: Template, output: ProjectOutput) {
+  return [
+    () => createProjectStructure(projectPath, config, output),
+    () => copyTemplateFiles(projectPath, config, template, output),
+    () => generatePackageJson(projectPath, config, output),
+    () => generateConfigFiles(projectPath, config, output),
+    () => generateDockerFiles(projectPath, config, output),
+    () => generateCIFiles(projectPath, config, output),
+    () => generateREADME(projectPath, config, output),
+    () => generateManifest(projectPath, config, template, output),
+    () => installDependencies(projectPath, config, output),
+    () => initializeGit(projectPath, config, output)
+  ];
+}
+
+/**
+ * Run every step, stopping at the first failure
+ */
+export function generateProject(projectPath: string, config: ProjectConfig, template: Template, output: ProjectOutput) {
+  return generationSteps(projectPath, config, template, output).every((step) => step());
+}
+
+/**
+ * Generate a project's files in memory, keyed by absolute path, without
+ * installing or committing anything
+ */
+export function renderProject(projectPath: string, config: ProjectConfig, template: Template): Map<string, PlannedFile> {
+  const output = memoryOutput();
+
+  if (!generateProject(projectPath, { ...config, install: false, git: false, gitCommit: false }, template, output)) {
+    throw new Error(`Failed to render the ${config.template} template`);
+  }
+
+  return output.files;
+}
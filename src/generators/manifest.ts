@@ -0,0 +1,23 @@
+import { resolve } from 'path';
+import { ProjectConfig } from '../types.js';
+import { Template } from '../templates.js';
+import { ProjectOutput } from '../output.js';
+import { PROJECT_MANIFEST_FILE, projectManifest, serializeManifest } from '../manifest.js';
+
+export function generateManifest(projectPath: string, config: ProjectConfig, template: Template, output: ProjectOutput) {
+  const spinner = output.spinner('Recording project manifest...');
+
+  try {
+    output.writeFile(
+      resolve(projectPath, PROJECT_MANIFEST_FILE),
+      serializeManifest(projectManifest(config, template))
+    );
+
+    spinner.succeed('Recorded project manifest');
+    return true;
+  } catch (error) {
+    spinner.fail('Failed to record project manifest');
+    console.error(error);
+    return false;
+  }
+}
@@ -0,0 +1,110 @@
+import { resolve } from 'path';
+import { ProjectConfig } from '../types.js';
+import { ProjectOutput } from '../output.js';
+import { PACKAGE_MANAGER_PROFILES } from '../package-managers.js';
+
+export function generatePackageJson(projectPath: string, config: ProjectConfig, output: ProjectOutput) {
+  const spinner = output.spinner('Generating package.json...');
+
+  try {
+    const dependencies: Record<string, string> = {
+      'filamentjs': '^0.1.0'
+    };
+
+    const devDependencies: Record<string, string> = {
+      '@types/node': '^20.0.0',
+      'typescript': '^5.0.0',
+      'tsx': '^4.7.0',
+      'eslint': '^9.0.0',
+      '@typescript-eslint/parser': '^8.0.0',
+      '@typescript-eslint/eslint-plugin': '^8.0.0',
+      'prettier': '^3.2.4',
+      'husky': '^9.0.0',
+      'lint-staged': '^15.2.0',
+      '@commitlint/cli': '^19.0.0',
+      '@commitlint/config-conventional': '^19.0.0',
+      'depcheck': '^1.4.7',
+      'test-battery': '^3.2.1'
+    };
+
+    // Add dependencies based on features
+    if (config.features.auth) {
+      dependencies['redis'] = '^4.6.0';
+      dependencies['jsonwebtoken'] = '^9.0.2';
+      devDependencies['@types/jsonwebtoken'] = '^9.0.5';
+    }
+
+    if (config.features.openapi) {
+      dependencies['swagger-ui-dist'] = '^5.17.0';
+      devDependencies['@types/swagger-ui-dist'] = '^3.30.5';
+    }
+
+    if (config.features.observability) {
+      dependencies['@opentelemetry/api'] = '^1.9.0';
+      dependencies['@opentelemetry/sdk-node'] = '^0.54.0';
+      dependencies['@opentelemetry/core'] = '^1.27.0';
+      dependencies['@opentelemetry/exporter-trace-otlp-http'] = '^0.54.0';
+      dependencies['prom-client'] = '^15.1.0';
+    }
+
+    // Always include pino
+    dependencies['pino'] = '^8.17.0';
+    dependencies['pino-pretty'] = '^10.3.0';
+
+    // Organization-wide additions
+    Object.assign(dependencies, config.extras?.dependencies);
+    Object.assign(devDependencies, config.extras?.devDependencies);
+
+    const packageJson = {
+      name: config.name,
+      version: '1.0.0',
+      description: 'A Filament API application',
+      type: 'module',
+      scripts: {
+        dev: 'tsx watch src/index.ts',
+        build: 'tsc',
+        start: 'node dist/index.js',
+        test: 'node --test --experimental-test-coverage tests/**/*.test.ts',
+        'test:watch': 'node --test --watch tests/**/*.test.ts',
+        lint: 'eslint src/**/*.ts',
+        'lint:fix': 'eslint src/**/*.ts --fix',
+        format: 'prettier --write src/**/*.ts',
+        'type-check': 'tsc --noEmit',
+        prepare: 'husky',
+        depcheck: 'depcheck'
+      } as Record<string, string>,
+      dependencies,
+      devDependencies,
+      // Lets corepack (and pnpm/action-setup in CI) use the same version
+      packageManager: PACKAGE_MANAGER_PROFILES[config.packageManager].version
+    };
+
+    if (config.features.openapi) {
+      packageJson.scripts['openapi:export'] = 'tsx src/openapi/export.ts';
+    }
+
+    // Add docker scripts if enabled
+    if (config.features.docker) {
+      packageJson.scripts['docker:build'] = 'docker build -t ' + config.name + ' .';
+      packageJson.scripts['docker:run'] = 'docker run -p 3000:3000 ' + config.name;
+    }
+
+    if (config.features.dockerCompose) {
+      packageJson.scripts['docker:up'] = 'docker compose up';
+      packageJson.scripts['docker:dev'] = 'docker compose up dev';
+      packageJson.scripts['docker:down'] = 'docker compose down';
+    }
+
+    output.writeFile(
+      resolve(projectPath, 'package.json'),
+      JSON.stringify(packageJson, null, 2)
+    );
+
+    spinner.succeed('Generated package.json');
+    return true;
+  } catch (error) {
+    spinner.fail('Failed to generate package.json');
+    console.error(error);
+    return false;
+  }
+}
@@ -0,0 +1,68 @@
+import chalk from 'chalk';
+import { ProjectConfig } from '../types.js';
+import { ProjectOutput } from '../output.js';
+import { PACKAGE_MANAGER_PROFILES } from '../package-managers.js';
+
+export function installDependencies(projectPath: string, config: ProjectConfig, output: ProjectOutput) {
+  if (!config.install) {
+    return true;
+  }
+
+  const spinner = output.spinner('Installing dependencies...');
+
+  try {
+    output.exec(PACKAGE_MANAGER_PROFILES[config.packageManager].install, projectPath);
+
+    spinner.succeed('Installed dependencies');
+    return true;
+  } catch (error) {
+    spinner.fail('Failed to install dependencies');
+    console.error(chalk.gray((error as { stderr?: Buffer }).stderr?.toString().trim() || String(error)));
+    console.error(`\nRe-run with ${chalk.cyan('--no-install')} to install dependencies manually afterwards.\n`);
+    return false;
+  }
+}
+
+/**
+ * Install after `add` or `upgrade` changed package.json. The files are
+ * written by then, so a failure is only reported.
+ */
+export function installChangedDependencies(projectPath: string, config: ProjectConfig, output: ProjectOutput) {
+  const spinner = output.spinner('Installing dependencies...');
+
+  try {
+    output.exec(PACKAGE_MANAGER_PROFILES[config.packageManager].install, projectPath);
+
+    spinner.succeed('Installed dependencies');
+    return true;
+  } catch (error) {
+    spinner.fail('Failed to install dependencies');
+    console.error(chalk.gray((error as { stderr?: Buffer }).stderr?.toString().trim() || String(error)));
+    return false;
+  }
+}
+
+export function initializeGit(projectPath: string, config: ProjectConfig, output: ProjectOutput) {
+  if (!config.git) {
+    return true;
+  }
+
+  const spinner = output.spinner('Initializing git repository...');
+
+  try {
+    output.exec('git init', projectPath);
+    output.exec('git add .', projectPath);
+
+    if (config.gitCommit) {
+      output.exec('git commit -m "feat: initial commit from create-filament"', projectPath);
+      spinner.succeed('Initialized git repository with initial commit');
+    } else {
+      spinner.succeed('Initialized git repository');
+    }
+
+    return true;
+  } catch (error) {
+    spinner.fail('Failed to initialize git repository');
+    return false;
+  }
+}
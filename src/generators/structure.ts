@@ -0,0 +1,32 @@
+import { resolve } from 'path';
+import { ProjectConfig } from '../types.js';
+import { ProjectOutput } from '../output.js';
+
+export function createProjectStructure(projectPath: string, config: ProjectConfig, output: ProjectOutput) {
+  const spinner = output.spinner('Creating project structure...');
+
+  try {
+    // Create base directories
+    output.mkdir(projectPath);
+    output.mkdir(resolve(projectPath, 'src'));
+    output.mkdir(resolve(projectPath, 'src/meta'));
+    output.mkdir(resolve(projectPath, 'src/middleware'));
+    output.mkdir(resolve(projectPath, 'src/routes'));
+    output.mkdir(resolve(projectPath, 'src/handlers'));
+    output.mkdir(resolve(projectPath, 'src/errors'));
+    output.mkdir(resolve(projectPath, 'src/logging'));
+    output.mkdir(resolve(projectPath, 'src/health'));
+    output.mkdir(resolve(projectPath, 'src/lifecycle'));
+    output.mkdir(resolve(projectPath, 'src/validation'));
+    output.mkdir(resolve(projectPath, 'src/config'));
+    output.mkdir(resolve(projectPath, 'tests/integration'));
+    output.mkdir(resolve(projectPath, 'tests/unit'));
+
+    spinner.succeed('Created project structure');
+    return true;
+  } catch (error) {
+    spinner.fail('Failed to create project structure');
+    console.error(error);
+    return false;
+  }
+}
@@ -0,0 +1,33 @@
+import { resolve } from 'path';
+import { readFileSync } from 'fs';
+import { ProjectConfig } from '../types.js';
+import { Template, composeTemplate, renderContext } from '../templates.js';
+import { renderTemplate, TEMPLATE_SUFFIX } from '../render.js';
+import { ProjectOutput } from '../output.js';
+
+export function copyTemplateFiles(projectPath: string, config: ProjectConfig, template: Template, output: ProjectOutput) {
+  const spinner = output.spinner('Copying template files...');
+
+  try {
+    const context = renderContext(config);
+
+    // Template layers plus one overlay per enabled feature
+    for (const [path, file] of composeTemplate(config, template)) {
+      const target = resolve(projectPath, path);
+
+      output.writeFile(
+        target,
+        file.render
+          ? renderTemplate(readFileSync(file.source, 'utf-8'), context, path + TEMPLATE_SUFFIX)
+          : readFileSync(file.source)
+      );
+    }
+
+    spinner.succeed('Copied template files');
+    return true;
+  } catch (error) {
+    spinner.fail('Failed to copy template files');
+    console.error(error);
+    return false;
+  }
+}
@@ -0,0 +1,83 @@
+import { dirname, resolve } from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { ProjectConfig } from './types.js';
+import { Template, isBuiltinTemplate } from './templates.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Written to every generated project, recording how it was generated so
+ * later commands (`add`, `generate`, `upgrade`) don't have to guess
+ */
+export const PROJECT_MANIFEST_FILE = '.filament.json';
+
+export const GENERATOR_VERSION: string = JSON.parse(
+  readFileSync(resolve(__dirname, '../package.json'), 'utf-8')
+).version;
+
+/**
+ * The parts of the configuration that shape the generated files. Organization
+ * extras are left out: they are applied once, when the project is generated,
+ * and belong to the project after that.
+ */
+export type RecordedConfig = Pick<ProjectConfig, 'name' | 'template' | 'features' | 'packageManager' | 'vars'>;
+
+export interface ProjectManifest {
+  /**
+   * Version of create-filament that generated the project, or last upgraded it
+   */
+  generatorVersion: string;
+
+  template: {
+    name: string;
+
+    /**
+     * The create-filament version for built-in templates, the template's own
+     * version (if it declares one) for third-party ones
+     */
+    version?: string;
+  };
+
+  config: RecordedConfig;
+}
+
+export function projectManifest(config: ProjectConfig, template: Template): ProjectManifest {
+  return {
+    generatorVersion: GENERATOR_VERSION,
+    template: {
+      name: template.manifest.name,
+      version: isBuiltinTemplate(template.spec) ? GENERATOR_VERSION : template.manifest.version
+    },
+    config: {
+      name: config.name,
+      template: config.template,
+      features: config.features,
+      packageManager: config.packageManager,
+      vars: config.vars
+    }
+  };
+}
+
+export function serializeManifest(manifest: ProjectManifest) {
+  return JSON.stringify(manifest, null, 2) + '\n';
+}
+
+/**
+ * The project's manifest, or undefined for projects generated before
+ * manifests were written
+ */
+export function readProjectManifest(dir: string): ProjectManifest | undefined {
+  const path = resolve(dir, PROJECT_MANIFEST_FILE);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  const manifest = JSON.parse(readFileSync(path, 'utf-8'));
+  if (typeof manifest.generatorVersion !== 'string' || typeof manifest.config?.name !== 'string') {
+    throw new Error(`${PROJECT_MANIFEST_FILE} is not a create-filament manifest`);
+  }
+
+  return manifest;
+}
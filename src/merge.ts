@@ -0,0 +1,99 @@
+import { diffLines, splitLines } from './diff.js';
+
+/**
+ * Line-based three-way merges, for upgrading a project: `base` is a file as
+ * the old template generated it, `ours` is the file in the project now and
+ * `theirs` is what the new template generates. Regions changed on only one
+ * side take that side; regions changed differently on both are conflicts.
+ */
+
+export interface MergeResult {
+  content: string;
+
+  /**
+   * Regions changed differently on both sides, written between conflict
+   * markers
+   */
+  conflicts: number;
+}
+
+export const CONFLICT_START = '<<<<<<< yours';
+export const CONFLICT_SEPARATOR = '=======';
+export const CONFLICT_END = '>>>>>>> template';
+
+// For each line of `base`, the index of the same line in `other`, or -1
+function matchLines(base: string[], other: string[]): number[] {
+  const matches: number[] = [];
+  let index = 0;
+
+  for (const edit of diffLines(base, other)) {
+    if (edit.kind === ' ') {
+      matches.push(index++);
+    } else if (edit.kind === '-') {
+      matches.push(-1);
+    } else {
+      index++;
+    }
+  }
+
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]) {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeResult {
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+
+  const toOurs = matchLines(baseLines, ourLines);
+  const toTheirs = matchLines(baseLines, theirLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let o = 0;
+  let t = 0;
+
+  while (b < baseLines.length || o < ourLines.length || t < theirLines.length) {
+    // Unchanged on both sides
+    if (b < baseLines.length && toOurs[b] === o && toTheirs[b] === t) {
+      output.push(baseLines[b]);
+      b++;
+      o++;
+      t++;
+      continue;
+    }
+
+    // The changed region runs up to the next base line both sides kept
+    let next = b;
+    while (next < baseLines.length && (toOurs[next] === -1 || toTheirs[next] === -1)) {
+      next++;
+    }
+
+    const ourEnd = next < baseLines.length ? toOurs[next] : ourLines.length;
+    const theirEnd = next < baseLines.length ? toTheirs[next] : theirLines.length;
+
+    const baseChunk = baseLines.slice(b, next);
+    const ourChunk = ourLines.slice(o, ourEnd);
+    const theirChunk = theirLines.slice(t, theirEnd);
+
+    if (sameLines(ourChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      output.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk)) {
+      output.push(...ourChunk);
+    } else {
+      conflicts++;
+      output.push(CONFLICT_START, ...ourChunk, CONFLICT_SEPARATOR, ...theirChunk, CONFLICT_END);
+    }
+
+    b = next;
+    o = ourEnd;
+    t = theirEnd;
+  }
+
+  const newline = output.length > 0 && (ours.endsWith('\n') || theirs.endsWith('\n')) ? '\n' : '';
+  return { content: output.join('\n') + newline, conflicts };
+}
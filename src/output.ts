@@ -0,0 +1,238 @@
+import { dirname, relative, sep } from 'path';
+import { chmodSync, existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { execSync } from 'child_process';
+import chalk from 'chalk';
+import ora, { Ora } from 'ora';
+import { unifiedDiff } from './diff.js';
+
+/**
+ * Everything a generator does to the outside world goes through this, so a
+ * project can be generated in memory, for `--dry-run` and in tests
+ */
+export interface ProjectOutput {
+  exists(path: string): boolean;
+  readFile(path: string): Buffer;
+  mkdir(path: string): void;
+
+  /**
+   * Write a file, creating its parent directories
+   */
+  writeFile(path: string, content: string | Buffer, options?: { executable?: boolean }): void;
+
+  /**
+   * Run a shell command, throwing if it fails
+   */
+  exec(command: string, cwd: string): void;
+
+  /**
+   * Progress indicator for a generator step
+   */
+  spinner(text: string): Ora;
+}
+
+export interface PlannedFile {
+  content: Buffer;
+  executable: boolean;
+}
+
+export interface PlannedCommand {
+  command: string;
+  cwd: string;
+}
+
+/**
+ * A ProjectOutput that only records what would happen
+ */
+export interface MemoryOutput extends ProjectOutput {
+  directories: Set<string>;
+  files: Map<string, PlannedFile>;
+  commands: PlannedCommand[];
+}
+
+export function diskOutput(): ProjectOutput {
+  return {
+    exists(path) {
+      return existsSync(path);
+    },
+
+    readFile(path) {
+      return readFileSync(path);
+    },
+
+    mkdir(path) {
+      mkdirSync(path, { recursive: true });
+    },
+
+    writeFile(path, content, options = {}) {
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, content);
+      if (options.executable) {
+        chmodSync(path, 0o755);
+      }
+    },
+
+    exec(command, cwd) {
+      execSync(command, { cwd, stdio: 'pipe' });
+    },
+
+    spinner(text) {
+      return ora(text).start();
+    }
+  };
+}
+
+export function memoryOutput(): MemoryOutput {
+  const output: MemoryOutput = {
+    directories: new Set(),
+    files: new Map(),
+    commands: [],
+
+    exists(path) {
+      return output.files.has(path) || output.directories.has(path) ||
+        [...output.files.keys()].some((file) => file.startsWith(path + sep));
+    },
+
+    readFile(path) {
+      const file = output.files.get(path);
+      if (!file) {
+        throw Object.assign(new Error(`ENOENT: no such file, open '${path}'`), { code: 'ENOENT' });
+      }
+      return file.content;
+    },
+
+    mkdir(path) {
+      output.directories.add(path);
+    },
+
+    writeFile(path, content, options = {}) {
+      output.directories.add(dirname(path));
+      output.files.set(path, {
+        content: typeof content === 'string' ? Buffer.from(content) : content,
+        executable: options.executable ?? false
+      });
+    },
+
+    exec(command, cwd) {
+      output.commands.push({ command, cwd });
+    },
+
+    // Nothing actually happens, so don't report steps as done
+    spinner(text) {
+      return ora({ text, isSilent: true }).start();
+    }
+  };
+
+  return output;
+}
+
+function formatSize(bytes: number) {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+type FileStatus = 'new' | 'changed' | 'unchanged';
+
+/**
+ * What a command run in an existing project did to a file
+ */
+export type FileAction = 'create' | 'update' | 'merge' | 'append' | 'conflict';
+
+const ACTION_COLORS: Record<FileAction, (text: string) => string> = {
+  create: chalk.green,
+  update: chalk.yellow,
+  merge: chalk.yellow,
+  append: chalk.yellow,
+  conflict: chalk.red
+};
+
+export function printFileAction(projectPath: string, action: FileAction, path: string) {
+  console.log(`  ${ACTION_COLORS[action](action.padEnd(8))} ${relative(projectPath, path).split(sep).join('/')}`);
+}
+
+export function colorDiff(diff: string) {
+  return diff.split('\n').map((line) =>
+    line.startsWith('+') ? chalk.green(line) : line.startsWith('-') ? chalk.red(line) : line
+  ).join('\n');
+}
+
+function existingContent(path: string) {
+  return existsSync(path) && statSync(path).isFile() ? readFileSync(path) : undefined;
+}
+
+const STATUS_LABELS: Record<FileStatus, string> = {
+  new: chalk.green('new'),
+  changed: chalk.yellow('changed'),
+  unchanged: chalk.gray('unchanged')
+};
+
+/**
+ * Print the files and commands a dry run recorded, relative to the project.
+ * When the project directory already exists, files are compared with what is
+ * on disk and `showContents` prints diffs instead of full contents.
+ */
+export function printPlan(output: MemoryOutput, projectPath: string, showContents: boolean) {
+  const display = (path: string) => relative(projectPath, path).split(sep).join('/') || '.';
+
+  const files = [...output.files.keys()].sort();
+
+  // Directories that are created but never receive a file
+  const emptyDirectories = [...output.directories]
+    .filter((dir) => dir !== projectPath && !files.some((file) => file.startsWith(dir + sep)))
+    .sort();
+
+  const compare = existsSync(projectPath);
+  const statuses = new Map<string, FileStatus>();
+
+  let total = 0;
+  console.log(chalk.bold(`\nFiles (${files.length}):\n`));
+
+  for (const path of files) {
+    const { content, executable } = output.files.get(path)!;
+    const existing = compare ? existingContent(path) : undefined;
+    const status = !existing ? 'new' : existing.equals(content) ? 'unchanged' : 'changed';
+    statuses.set(path, status);
+    total += content.length;
+
+    console.log([
+      `  ${display(path)}`,
+      executable ? chalk.gray(' (executable)') : '',
+      ` ${chalk.gray(formatSize(content.length))}`,
+      compare ? ` ${STATUS_LABELS[status]}` : ''
+    ].join(''));
+  }
+
+  for (const dir of emptyDirectories) {
+    console.log(`  ${display(dir)}/ ${chalk.gray('(empty)')}`);
+  }
+
+  console.log(chalk.gray(`\n  ${formatSize(total)} total`));
+
+  if (output.commands.length > 0) {
+    console.log(chalk.bold('\nCommands:\n'));
+    for (const { command, cwd } of output.commands) {
+      console.log(`  ${chalk.gray(`(${display(cwd)})`)} ${command}`);
+    }
+  }
+
+  if (showContents) {
+    for (const path of files) {
+      const { content } = output.files.get(path)!;
+      const status = statuses.get(path);
+
+      if (status === 'unchanged') {
+        continue;
+      }
+
+      console.log(chalk.cyan(`\n──── ${display(path)} ────`));
+
+      if (content.includes(0)) {
+        console.log(chalk.gray('(binary)'));
+      } else if (status === 'changed') {
+        console.log(colorDiff(unifiedDiff(readFileSync(path, 'utf-8'), content.toString('utf-8'), display(path))));
+      } else {
+        console.log(content.toString('utf-8').replace(/\n$/, ''));
+      }
+    }
+  }
+
+  console.log(chalk.yellow('\nDry run: nothing was written.\n'));
+}
@@ -0,0 +1,114 @@
+import { PackageManager } from './types.js';
+
+/**
+ * How each package manager is driven in generated files
+ */
+export interface PackageManagerProfile {
+  /**
+   * Pinned for the `packageManager` field so corepack picks the same version
+   * everywhere. Bun is not managed by corepack.
+   */
+  version?: string;
+
+  /**
+   * Lockfile name, used as a CI cache key
+   */
+  lockfile: string;
+
+  /**
+   * Files to COPY before installing in the Dockerfile
+   */
+  dockerManifests: string;
+
+  install: string;
+
+  /**
+   * Install exactly what the lockfile says, failing if it is out of date
+   */
+  ciInstall: string;
+
+  /**
+   * Install production dependencies only, without lifecycle scripts (the
+   * `prepare` script needs husky, a dev dependency)
+   */
+  productionInstall: string;
+
+  /**
+   * Add a dependency, e.g. `pnpm add`
+   */
+  add: string;
+
+  /**
+   * Run a binary from node_modules, e.g. `npx`
+   */
+  exec: string;
+
+  /**
+   * Run a package without adding it to the project, e.g. `pnpm dlx`
+   */
+  dlx: string;
+}
+
+export const PACKAGE_MANAGER_PROFILES: Record<PackageManager, PackageManagerProfile> = {
+  npm: {
+    version: 'npm@10.9.0',
+    lockfile: 'package-lock.json',
+    dockerManifests: 'package.json package-lock.json',
+    install: 'npm install',
+    ciInstall: 'npm ci',
+    productionInstall: 'npm ci --omit=dev --ignore-scripts',
+    add: 'npm install',
+    exec: 'npx --no --',
+    dlx: 'npx'
+  },
+  pnpm: {
+    version: 'pnpm@9.12.3',
+    lockfile: 'pnpm-lock.yaml',
+    dockerManifests: 'package.json pnpm-lock.yaml',
+    install: 'pnpm install',
+    ciInstall: 'pnpm install --frozen-lockfile',
+    productionInstall: 'pnpm install --frozen-lockfile --prod --ignore-scripts',
+    add: 'pnpm add',
+    exec: 'pnpm exec',
+    dlx: 'pnpm dlx'
+  },
+  yarn: {
+    version: 'yarn@4.5.1',
+    lockfile: 'yarn.lock',
+    dockerManifests: 'package.json yarn.lock .yarnrc.yml',
+    install: 'yarn install',
+    ciInstall: 'yarn install --immutable',
+    productionInstall: 'yarn workspaces focus --production',
+    add: 'yarn add',
+    exec: 'yarn',
+    dlx: 'yarn dlx'
+  },
+  bun: {
+    lockfile: 'bun.lock',
+    // Older versions of bun write the binary bun.lockb instead
+    dockerManifests: 'package.json bun.lock*',
+    install: 'bun install',
+    ciInstall: 'bun install --frozen-lockfile',
+    productionInstall: 'bun install --frozen-lockfile --production --ignore-scripts',
+    add: 'bun add',
+    exec: 'bunx',
+    dlx: 'bunx'
+  }
+};
+
+/**
+ * Command that runs a package.json script. `bun test` would start bun's own
+ * test runner, so bun always goes through `bun run`.
+ */
+export function runScript(pm: PackageManager, script: string, args = '') {
+  const command = pm === 'npm' && (script === 'test' || script === 'start')
+    ? `npm ${script}`
+    : pm === 'yarn' ? `yarn ${script}` : `${pm} run ${script}`;
+
+  if (!args) {
+    return command;
+  }
+
+  // npm needs `--` to pass arguments through to the script
+  return pm === 'npm' ? `${command} -- ${args}` : `${command} ${args}`;
+}
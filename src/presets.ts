@@ -0,0 +1,260 @@
+import { dirname, join, resolve } from 'path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import {
+  PackageManager,
+  ProjectConfig,
+  ProjectExtras,
+  ProjectFeatures,
+  TemplateVariables,
+  CI_PROVIDERS,
+  PACKAGE_MANAGERS
+} from './types.js';
+import { ArgumentError, CliOptions } from './args.js';
+
+/**
+ * Presets and defaults read from configuration files:
+ *
+ * - the user's config, `$XDG_CONFIG_HOME/create-filament/config.json`
+ *   (`~/.config/create-filament/config.json` by default), holds named presets
+ * - the nearest `.create-filament.json` in the current directory or above
+ *   holds an organization's (or project's) defaults, locked choices, presets,
+ *   and extra dependencies and files
+ */
+
+export const ORGANIZATION_CONFIG_FILE = '.create-filament.json';
+
+/**
+ * A saved set of answers. Anything a preset sets is not asked.
+ */
+export interface Preset {
+  template?: string;
+  features?: Partial<ProjectFeatures>;
+  packageManager?: PackageManager;
+  git?: boolean;
+  gitCommit?: boolean;
+  vars?: TemplateVariables;
+}
+
+/**
+ * Choices an organization config can lock to its defaults
+ */
+export type LockableOption = Exclude<keyof Preset, 'features' | 'vars'> | keyof ProjectFeatures;
+
+const LOCKABLE_OPTIONS: LockableOption[] = [
+  'template', 'packageManager', 'git', 'gitCommit',
+  'docker', 'dockerCompose', 'ci', 'openapi', 'auth', 'observability'
+];
+
+export interface UserConfig {
+  presets?: Record<string, Preset>;
+}
+
+export interface OrganizationConfig extends ProjectExtras {
+  /**
+   * Preselected in the prompts, and used with `--yes`
+   */
+  defaults?: Preset;
+
+  /**
+   * Defaults that can't be changed, with flags, presets or in the prompts
+   */
+  locked?: LockableOption[];
+  presets?: Record<string, Preset>;
+}
+
+/**
+ * Everything read from configuration files
+ */
+export interface Settings {
+  userConfigPath: string;
+  organizationConfigPath?: string;
+
+  /**
+   * User presets, and the organization's (which user presets of the same
+   * name replace)
+   */
+  presets: Record<string, Preset>;
+  defaults: Preset;
+  locked: LockableOption[];
+  extras: ProjectExtras;
+}
+
+/**
+ * Raised for configuration files that can't be read or don't make sense
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export function userConfigPath() {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(base, 'create-filament', 'config.json');
+}
+
+/**
+ * The nearest organization config in `dir` or its parents
+ */
+export function findOrganizationConfig(dir: string): string | undefined {
+  let current = resolve(dir);
+
+  for (;;) {
+    const candidate = join(current, ORGANIZATION_CONFIG_FILE);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+
+    const parent = dirname(current);
+    if (parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+}
+
+function readConfig<T>(path: string): T {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(`Cannot read ${path}: ${(error as Error).message}`);
+  }
+}
+
+function validatePreset(preset: Preset, where: string) {
+  const fail = (message: string): never => {
+    throw new ConfigError(`${where}: ${message}`);
+  };
+
+  if (preset.packageManager !== undefined && !PACKAGE_MANAGERS.includes(preset.packageManager)) {
+    fail(`"packageManager" must be one of ${PACKAGE_MANAGERS.join(', ')}`);
+  }
+
+  for (const [feature, value] of Object.entries(preset.features ?? {})) {
+    if (feature === 'ci') {
+      if (!CI_PROVIDERS.includes(value as ProjectFeatures['ci'])) {
+        fail(`"features.ci" must be one of ${CI_PROVIDERS.join(', ')}`);
+      }
+    } else if (!LOCKABLE_OPTIONS.includes(feature as LockableOption) || typeof value !== 'boolean') {
+      fail(`unknown or invalid feature "${feature}"`);
+    }
+  }
+}
+
+export function loadSettings(cwd: string): Settings {
+  const userPath = userConfigPath();
+  const user: UserConfig = existsSync(userPath) ? readConfig(userPath) : {};
+
+  const organizationPath = findOrganizationConfig(cwd);
+  const organization: OrganizationConfig = organizationPath ? readConfig(organizationPath) : {};
+
+  for (const [name, preset] of Object.entries(user.presets ?? {})) {
+    validatePreset(preset, `${userPath}, preset "${name}"`);
+  }
+  for (const [name, preset] of Object.entries(organization.presets ?? {})) {
+    validatePreset(preset, `${organizationPath}, preset "${name}"`);
+  }
+
+  const defaults = organization.defaults ?? {};
+  validatePreset(defaults, `${organizationPath}, "defaults"`);
+
+  for (const option of organization.locked ?? []) {
+    if (!LOCKABLE_OPTIONS.includes(option)) {
+      throw new ConfigError(`${organizationPath}: "${option}" can't be locked`);
+    }
+    if (defaultValue(defaults, option) === undefined) {
+      throw new ConfigError(`${organizationPath}: "${option}" is locked but has no default`);
+    }
+  }
+
+  return {
+    userConfigPath: userPath,
+    organizationConfigPath: organizationPath,
+    presets: { ...organization.presets, ...user.presets },
+    defaults,
+    locked: organization.locked ?? [],
+    extras: {
+      dependencies: organization.dependencies,
+      devDependencies: organization.devDependencies,
+      // Relative to the config file
+      files: organization.files && resolve(dirname(organizationPath!), organization.files)
+    }
+  };
+}
+
+function defaultValue(defaults: Preset, option: LockableOption) {
+  return option in (defaults.features ?? {})
+    ? defaults.features![option as keyof ProjectFeatures]
+    : defaults[option as Exclude<LockableOption, keyof ProjectFeatures>];
+}
+
+export function findPreset(settings: Settings, name: string): Preset {
+  const preset = settings.presets[name];
+  if (!preset) {
+    const available = Object.keys(settings.presets);
+    throw new ArgumentError(
+      `Unknown preset "${name}". ${available.length ? `Available: ${available.join(', ')}` : 'No presets are saved yet'}`
+    );
+  }
+  return preset;
+}
+
+/**
+ * Options with the preset's answers filled in (flags win) and locked choices
+ * applied
+ */
+export function applySettings(options: CliOptions, settings: Settings, preset: Preset = {}): CliOptions {
+  const applied: CliOptions = {
+    ...options,
+    template: options.template ?? preset.template,
+    features: { ...preset.features, ...options.features },
+    packageManager: options.packageManager ?? preset.packageManager,
+    git: options.git ?? preset.git,
+    gitCommit: options.gitCommit ?? preset.gitCommit,
+    vars: { ...preset.vars, ...options.vars }
+  };
+
+  for (const option of settings.locked) {
+    const locked = defaultValue(settings.defaults, option);
+    const isFeature = !['template', 'packageManager', 'git', 'gitCommit'].includes(option);
+    const current = isFeature
+      ? applied.features[option as keyof ProjectFeatures]
+      : applied[option as 'template' | 'packageManager' | 'git' | 'gitCommit'];
+
+    if (current !== undefined && current !== locked) {
+      throw new ArgumentError(`${option} is locked to ${locked} by ${settings.organizationConfigPath}`);
+    }
+
+    if (isFeature) {
+      (applied.features as Record<string, unknown>)[option] = locked;
+    } else {
+      (applied as unknown as Record<string, unknown>)[option] = locked;
+    }
+  }
+
+  return applied;
+}
+
+/**
+ * Save the answers that shaped `config` as a preset in the user's config
+ */
+export function savePreset(path: string, name: string, config: ProjectConfig) {
+  const user: UserConfig = existsSync(path) ? readConfig(path) : {};
+
+  user.presets = {
+    ...user.presets,
+    [name]: {
+      template: config.template,
+      features: config.features,
+      packageManager: config.packageManager,
+      git: config.git,
+      gitCommit: config.gitCommit,
+      vars: config.vars
+    }
+  };
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(user, null, 2) + '\n');
+}
@@ -0,0 +1,98 @@
+import { basename, resolve } from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { PackageManager, ProjectConfig, ProjectFeatures, TemplateName, PACKAGE_MANAGERS } from './types.js';
+import { PROJECT_MANIFEST_FILE, ProjectManifest, readProjectManifest } from './manifest.js';
+
+/**
+ * The parts of a project's package.json read here, unchecked
+ */
+interface PackageJson {
+  name?: unknown;
+  packageManager?: unknown;
+  dependencies?: Record<string, unknown>;
+}
+
+/**
+ * Raised when a command that works on an existing project is run outside one
+ */
+export class ProjectError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectError';
+  }
+}
+
+function detectPackageManager(dir: string, field: unknown): PackageManager {
+  const name = typeof field === 'string' ? field.split('@')[0] : '';
+  if ((PACKAGE_MANAGERS as string[]).includes(name)) {
+    return name as PackageManager;
+  }
+
+  if (existsSync(resolve(dir, 'pnpm-lock.yaml'))) return 'pnpm';
+  if (existsSync(resolve(dir, 'yarn.lock'))) return 'yarn';
+  if (existsSync(resolve(dir, 'bun.lock')) || existsSync(resolve(dir, 'bun.lockb'))) return 'bun';
+  return 'npm';
+}
+
+/**
+ * The project's .filament.json, or undefined if it has none
+ */
+export function projectManifestOf(dir: string): ProjectManifest | undefined {
+  try {
+    return readProjectManifest(dir);
+  } catch (error) {
+    throw new ProjectError(`Cannot read ${PROJECT_MANIFEST_FILE}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Work out how an existing project was generated: from its .filament.json,
+ * or for projects generated before those were written, from the files it has
+ */
+export function detectProject(dir: string): ProjectConfig {
+  const packageJsonPath = resolve(dir, 'package.json');
+
+  if (!existsSync(packageJsonPath)) {
+    throw new ProjectError(`No package.json found in ${dir}`);
+  }
+
+  let packageJson: PackageJson;
+  try {
+    packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+  } catch (error) {
+    throw new ProjectError(`Cannot read ${packageJsonPath}: ${(error as Error).message}`);
+  }
+
+  if (!packageJson.dependencies?.filamentjs) {
+    throw new ProjectError(`${dir} is not a Filament project (filamentjs is not a dependency)`);
+  }
+
+  const has = (path: string) => existsSync(resolve(dir, path));
+
+  const manifest = projectManifestOf(dir);
+  if (manifest) {
+    return { ...manifest.config, git: has('.git'), gitCommit: false, install: false };
+  }
+
+  const template: TemplateName = has('src/routes/events.ts') ? 'full' : has('src/routes/users.ts') ? 'api' : 'minimal';
+
+  const features: ProjectFeatures = {
+    docker: has('Dockerfile'),
+    dockerCompose: has('docker-compose.yml'),
+    ci: has('.github/workflows/ci.yml') ? 'github' : has('.gitlab-ci.yml') ? 'gitlab' : 'none',
+    openapi: has('src/openapi/index.ts'),
+    auth: has('src/middleware/auth.ts'),
+    observability: has('src/observability/index.ts')
+  };
+
+  return {
+    name: typeof packageJson.name === 'string' ? packageJson.name : basename(resolve(dir)),
+    template,
+    features,
+    packageManager: detectPackageManager(dir, packageJson.packageManager),
+    git: has('.git'),
+    gitCommit: false,
+    install: false,
+    vars: {}
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Template rendering
+ *
+ * Files ending in `.tmpl` are rendered against the project configuration
+ * before being written (without the suffix). Two constructs are supported:
+ *
+ * Placeholders, replaced with the value at a path in the context:
+ *
+ *   console.log('{{name}} listening');
+ *
+ * Conditional blocks, delimited by whole-line comments (`//` or `#`) so
+ * template files stay valid TypeScript, YAML, shell, ...:
+ *
+ *   // #if features.auth && !features.observability
+ *   registerAuth(app);
+ *   // #else
+ *   ...
+ *   // #endif
+ *
+ * Conditions combine paths with `!`, `&&`, `||`, and compare against string
+ * literals with `==` / `!=` (e.g. `packageManager == 'pnpm'`).
+ */
+
+export type RenderContext = Record<string, unknown>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+const BLOCK_PATTERN = /^\s*(?:\/\/|#)\s*#(if|else|endif)\b\s*(.*?)\s*$/;
+
+export const TEMPLATE_SUFFIX = '.tmpl';
+
+function lookup(context: RenderContext, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    context
+  );
+}
+
+function evaluateTerm(term: string, context: RenderContext): boolean {
+  const comparison = term.match(/^([\w.]+)\s*(==|!=)\s*'([^']*)'$/);
+  if (comparison) {
+    const [, path, operator, literal] = comparison;
+    const equal = String(lookup(context, path)) === literal;
+    return operator === '==' ? equal : !equal;
+  }
+
+  const test = term.match(/^(!*)([\w.]+)$/);
+  if (!test) {
+    throw new Error(`invalid condition "${term}"`);
+  }
+
+  const value = lookup(context, test[2]);
+  if (value === undefined) {
+    throw new Error(`unknown value "${test[2]}"`);
+  }
+
+  return test[1].length % 2 === 0 ? Boolean(value) : !value;
+}
+
+/**
+ * Evaluate a block or file condition against the context
+ */
+export function evaluateCondition(condition: string, context: RenderContext): boolean {
+  if (!condition.trim()) {
+    throw new Error('missing condition');
+  }
+
+  // `&&` binds tighter than `||`
+  return condition.split('||').some((alternative) =>
+    alternative.split('&&').every((term) => evaluateTerm(term.trim(), context))
+  );
+}
+
+/**
+ * Render a template's conditional blocks and placeholders
+ */
+export function renderTemplate(content: string, context: RenderContext, file = 'template'): string {
+  const output: string[] = [];
+  const stack: { value: boolean; parentKeep: boolean; inElse: boolean }[] = [];
+  let keep = true;
+
+  content.split('\n').forEach((line, index) => {
+    const where = `${file}:${index + 1}`;
+    const match = line.match(BLOCK_PATTERN);
+
+    if (!match) {
+      if (keep) {
+        output.push(line.replace(PLACEHOLDER_PATTERN, (_, path: string) => {
+          const value = lookup(context, path);
+          if (value === undefined || (value !== null && typeof value === 'object')) {
+            throw new Error(`${where}: cannot substitute "{{${path}}}"`);
+          }
+          return String(value);
+        }));
+      }
+      return;
+    }
+
+    const [, directive, condition] = match;
+
+    if (directive === 'if') {
+      let value: boolean;
+      try {
+        value = evaluateCondition(condition, context);
+      } catch (error) {
+        throw new Error(`${where}: ${(error as Error).message}`);
+      }
+      stack.push({ value, parentKeep: keep, inElse: false });
+      keep = keep && value;
+    } else if (directive === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.inElse) {
+        throw new Error(`${where}: unexpected #else`);
+      }
+      block.inElse = true;
+      keep = block.parentKeep && !block.value;
+    } else {
+      const block = stack.pop();
+      if (!block) {
+        throw new Error(`${where}: unexpected #endif`);
+      }
+      keep = block.parentKeep;
+    }
+  });
+
+  if (stack.length > 0) {
+    throw new Error(`${file}: missing #endif`);
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,186 @@
+import { resolve, join } from 'path';
+import { homedir, tmpdir } from 'os';
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, statSync, writeFileSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { Template, TemplateError, builtinTemplate, isBuiltinTemplate, loadTemplate } from './templates.js';
+
+export type TemplateSourceKind = 'builtin' | 'directory' | 'tarball' | 'git';
+
+/**
+ * A template that may have been downloaded to a temporary directory
+ */
+export interface FetchedTemplate {
+  template: Template;
+
+  /**
+   * Remove anything downloaded for the template
+   */
+  cleanup(): void;
+}
+
+const GIT_SHORTHANDS: Record<string, string> = {
+  github: 'https://github.com/',
+  gitlab: 'https://gitlab.com/',
+  bitbucket: 'https://bitbucket.org/'
+};
+
+/**
+ * Work out where a `--template` value points
+ *
+ * - `minimal`, `api`, `full`: built-in templates
+ * - `*.tgz` / `*.tar.gz`: a tarball, local or over http(s)
+ * - `git@...`, `git+https://...`, `*.git`, `github:org/repo`, `file://`
+ *   and other http(s) URLs: a git repository, optionally with a `#ref`
+ * - anything else: a local directory
+ */
+export function templateSourceKind(spec: string): TemplateSourceKind {
+  if (isBuiltinTemplate(spec)) {
+    return 'builtin';
+  }
+
+  const [location] = spec.split('#');
+
+  if (/\.(tgz|tar\.gz)(\?.*)?$/.test(location)) {
+    return 'tarball';
+  }
+
+  if (
+    /^(git@|git\+|git:\/\/|ssh:\/\/|file:\/\/)/.test(location) ||
+    /\.git$/.test(location) ||
+    /^(github|gitlab|bitbucket):/.test(location) ||
+    /^https?:\/\//.test(location)
+  ) {
+    return 'git';
+  }
+
+  return 'directory';
+}
+
+function expandHome(path: string) {
+  return path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+}
+
+/**
+ * The `--template` value to record in `.filament.json`: local directories and
+ * tarballs as absolute paths, so `add` and `upgrade` find them again from the
+ * project directory. Anything else is returned as given.
+ */
+export function resolveTemplateSpec(spec: string): string {
+  const kind = templateSourceKind(spec);
+  if (kind === 'directory' || (kind === 'tarball' && !/^https?:\/\//.test(spec))) {
+    return resolve(expandHome(spec));
+  }
+  return spec;
+}
+
+// npm pack and GitHub archives wrap everything in a single top-level directory
+function unwrapSingleDirectory(dir: string): string {
+  if (existsSync(join(dir, 'template.json'))) {
+    return dir;
+  }
+
+  const entries = readdirSync(dir, { withFileTypes: true });
+  if (entries.length === 1 && entries[0].isDirectory()) {
+    return join(dir, entries[0].name);
+  }
+
+  return dir;
+}
+
+async function extractTarball(spec: string, workDir: string): Promise<string> {
+  let archive = resolve(expandHome(spec));
+
+  if (/^https?:\/\//.test(spec)) {
+    const response = await fetch(spec);
+    if (!response.ok) {
+      throw new TemplateError(`Failed to download template ${spec}: ${response.status} ${response.statusText}`);
+    }
+    archive = join(workDir, 'template.tgz');
+    writeFileSync(archive, Buffer.from(await response.arrayBuffer()));
+  } else if (!existsSync(archive)) {
+    throw new TemplateError(`Template archive "${spec}" not found`);
+  }
+
+  const target = join(workDir, 'template');
+  mkdirSync(target);
+
+  try {
+    execFileSync('tar', ['-xzf', archive, '-C', target], { stdio: 'pipe' });
+  } catch (error) {
+    throw new TemplateError(`Failed to extract template archive "${spec}"`);
+  }
+
+  return unwrapSingleDirectory(target);
+}
+
+function cloneRepository(spec: string, workDir: string): string {
+  const [location, ref] = spec.split('#');
+  const shorthand = location.match(/^(github|gitlab|bitbucket):(.+)$/);
+  const url = shorthand
+    ? `${GIT_SHORTHANDS[shorthand[1]]}${shorthand[2].replace(/\.git$/, '')}.git`
+    : location.replace(/^git\+/, '');
+
+  // Would be read as an option by git
+  if (ref?.startsWith('-')) {
+    throw new TemplateError(`Invalid ref "${ref}" for template repository ${url}`);
+  }
+
+  const target = join(workDir, 'template');
+  const git = (args: string[], cwd?: string) => execFileSync('git', args, { cwd, stdio: 'pipe' });
+
+  try {
+    git(['clone', '--depth', '1', ...(ref ? ['--branch', ref] : []), '--', url, target]);
+  } catch (error) {
+    if (!ref) {
+      throw new TemplateError(`Failed to clone template repository ${url}`);
+    }
+
+    // --branch only takes branch and tag names; fall back for commit SHAs
+    try {
+      rmSync(target, { recursive: true, force: true });
+      git(['clone', '--', url, target]);
+      git(['checkout', ref], target);
+    } catch {
+      throw new TemplateError(`Failed to check out "${ref}" from template repository ${url}`);
+    }
+  }
+
+  rmSync(join(target, '.git'), { recursive: true, force: true });
+  return target;
+}
+
+/**
+ * Resolve a `--template` value to a template on disk, downloading it first
+ * if it is remote
+ */
+export async function fetchTemplate(spec: string): Promise<FetchedTemplate> {
+  if (isBuiltinTemplate(spec)) {
+    return { template: builtinTemplate(spec), cleanup: () => {} };
+  }
+
+  // Never handed on to git or tar, where it would be read as an option
+  if (spec.startsWith('-')) {
+    throw new TemplateError(`Invalid template "${spec}"`);
+  }
+
+  const kind = templateSourceKind(spec);
+  const resolved = resolveTemplateSpec(spec);
+
+  if (kind === 'directory') {
+    if (!existsSync(resolved) || !statSync(resolved).isDirectory()) {
+      throw new TemplateError(`Template directory "${spec}" not found`);
+    }
+    return { template: loadTemplate(resolved, resolved), cleanup: () => {} };
+  }
+
+  const workDir = mkdtempSync(join(tmpdir(), 'create-filament-'));
+  const cleanup = () => rmSync(workDir, { recursive: true, force: true });
+
+  try {
+    const root = kind === 'tarball' ? await extractTarball(spec, workDir) : cloneRepository(spec, workDir);
+    return { template: loadTemplate(resolved, root), cleanup };
+  } catch (error) {
+    cleanup();
+    throw error;
+  }
+}
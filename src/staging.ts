@@ -0,0 +1,48 @@
+import { basename, dirname, join } from 'path';
+import { existsSync, mkdtempSync, renameSync, rmSync } from 'fs';
+
+/**
+ * A hidden directory next to the project that it is generated into. Nothing
+ * appears at the project path until every step has succeeded.
+ */
+export interface StagingDirectory {
+  path: string;
+
+  /**
+   * Move the generated project into place
+   */
+  commit(): void;
+
+  /**
+   * Remove everything generated so far
+   */
+  discard(): void;
+}
+
+/**
+ * Create a staging directory for `projectPath`. It lives in the same parent
+ * directory so the final move is a rename on the same filesystem.
+ */
+export function stageProject(projectPath: string): StagingDirectory {
+  const path = mkdtempSync(join(dirname(projectPath), `.${basename(projectPath)}-`));
+  let done = false;
+
+  return {
+    path,
+
+    commit() {
+      if (existsSync(projectPath)) {
+        throw new Error(`${projectPath} was created while the project was being generated`);
+      }
+      renameSync(path, projectPath);
+      done = true;
+    },
+
+    discard() {
+      if (!done) {
+        rmSync(path, { recursive: true, force: true });
+        done = true;
+      }
+    }
+  };
+}
@@ -0,0 +1,310 @@
+import { fileURLToPath } from 'url';
+import { dirname, resolve, relative, join, sep } from 'path';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { ProjectConfig, ProjectFeatures, TemplateName, TEMPLATES } from './types.js';
+import { RenderContext, TEMPLATE_SUFFIX, evaluateCondition } from './render.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const TEMPLATES_DIR = resolve(__dirname, '../templates');
+export const FEATURES_DIR = resolve(TEMPLATES_DIR, 'features');
+
+const MANIFEST_FILE = 'template.json';
+
+// Never treated as template content
+const IGNORED_ENTRIES = new Set(['.git', 'node_modules']);
+
+/**
+ * Features that contribute an overlay directory under templates/features,
+ * in the order they are applied
+ */
+export const FEATURE_OVERLAYS: (keyof ProjectFeatures)[] = ['auth', 'openapi', 'observability', 'docker'];
+
+const NO_FEATURES: ProjectFeatures = {
+  docker: false,
+  dockerCompose: false,
+  ci: 'none',
+  openapi: false,
+  auth: false,
+  observability: false
+};
+
+/**
+ * Raised for templates that cannot be found, fetched or understood
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * Optional template.json in any layer, including feature overlays
+ */
+export interface LayerManifest {
+  /**
+   * Conditions for including files, keyed by project-relative path,
+   * e.g. `{ "src/services/redis.ts": "features.auth || features.observability" }`
+   */
+  files?: Record<string, string>;
+}
+
+/**
+ * An extra question a template asks. The answer is available to `.tmpl`
+ * files as `vars.<name>`.
+ */
+export interface TemplatePrompt {
+  name: string;
+  type: 'text' | 'confirm' | 'select' | 'number';
+  message: string;
+  initial?: string | number | boolean;
+  choices?: (string | { title: string; value: string })[];
+}
+
+/**
+ * Contents of a template's template.json
+ */
+export interface TemplateManifest extends LayerManifest {
+  name: string;
+  description: string;
+
+  /**
+   * Recorded in generated projects' .filament.json
+   */
+  version?: string;
+
+  /**
+   * Built-in template this one is layered on top of
+   */
+  extends?: TemplateName;
+
+  /**
+   * Features enabled by default when this template is chosen
+   */
+  features: ProjectFeatures;
+
+  /**
+   * Additional questions asked after the built-in ones
+   */
+  prompts?: TemplatePrompt[];
+
+  /**
+   * Feature overlays shipped with the template, relative to its root. They
+   * replace the built-in overlay for that feature.
+   */
+  overlays?: Partial<Record<keyof ProjectFeatures, string>>;
+}
+
+/**
+ * A template ready to be composed
+ */
+export interface Template {
+  /**
+   * As given on the command line: a built-in name, path, tarball or git URL
+   */
+  spec: string;
+  root: string;
+  manifest: TemplateManifest;
+}
+
+/**
+ * A file selected from the layers
+ */
+export interface TemplateFile {
+  source: string;
+
+  /**
+   * Whether the source is a `.tmpl` file to render
+   */
+  render: boolean;
+}
+
+function readLayerManifest(layer: string): LayerManifest {
+  const manifestPath = resolve(layer, MANIFEST_FILE);
+  return existsSync(manifestPath) ? JSON.parse(readFileSync(manifestPath, 'utf-8')) : {};
+}
+
+export function isBuiltinTemplate(spec: string): spec is TemplateName {
+  return (TEMPLATES as string[]).includes(spec);
+}
+
+export function loadManifest(template: TemplateName): TemplateManifest {
+  return readLayerManifest(resolve(TEMPLATES_DIR, template)) as TemplateManifest;
+}
+
+export function builtinTemplate(name: TemplateName): Template {
+  return { spec: name, root: resolve(TEMPLATES_DIR, name), manifest: loadManifest(name) };
+}
+
+function validateManifest(manifest: Partial<TemplateManifest>, spec: string): TemplateManifest {
+  const fail = (message: string): never => {
+    throw new TemplateError(`Invalid ${MANIFEST_FILE} in template "${spec}": ${message}`);
+  };
+
+  if (typeof manifest.name !== 'string' || !manifest.name) {
+    fail('"name" is required');
+  }
+
+  if (manifest.version !== undefined && typeof manifest.version !== 'string') {
+    fail('"version" must be a string');
+  }
+
+  if (manifest.extends !== undefined && !isBuiltinTemplate(manifest.extends)) {
+    fail(`"extends" must be one of ${TEMPLATES.join(', ')}`);
+  }
+
+  for (const feature of Object.keys(manifest.overlays ?? {})) {
+    if (!FEATURE_OVERLAYS.includes(feature as keyof ProjectFeatures)) {
+      fail(`unknown overlay feature "${feature}"`);
+    }
+  }
+
+  for (const prompt of manifest.prompts ?? []) {
+    if (!/^\w+$/.test(prompt.name ?? '')) {
+      fail(`prompt name "${prompt.name}" must be a word`);
+    }
+    if (!['text', 'confirm', 'select', 'number'].includes(prompt.type)) {
+      fail(`prompt "${prompt.name}" has unsupported type "${prompt.type}"`);
+    }
+    if (prompt.type === 'select' && !prompt.choices?.length) {
+      fail(`select prompt "${prompt.name}" needs choices`);
+    }
+  }
+
+  // Features a template doesn't mention fall back to its base's defaults
+  const base = manifest.extends ? loadManifest(manifest.extends).features : NO_FEATURES;
+
+  return {
+    ...manifest,
+    description: manifest.description ?? '',
+    features: { ...base, ...manifest.features }
+  } as TemplateManifest;
+}
+
+/**
+ * Load a template from a local directory
+ */
+export function loadTemplate(spec: string, root: string): Template {
+  const manifestPath = resolve(root, MANIFEST_FILE);
+
+  if (!existsSync(manifestPath)) {
+    throw new TemplateError(`"${spec}" is not a create-filament template (no ${MANIFEST_FILE} found)`);
+  }
+
+  let manifest: Partial<TemplateManifest>;
+  try {
+    manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+  } catch (error) {
+    throw new TemplateError(`Invalid ${MANIFEST_FILE} in template "${spec}": ${(error as Error).message}`);
+  }
+
+  return { spec, root, manifest: validateManifest(manifest, spec) };
+}
+
+/**
+ * Values available to placeholders and conditions in `.tmpl` files
+ */
+export function renderContext(config: ProjectConfig): RenderContext {
+  return { ...config };
+}
+
+/**
+ * Directories to compose for a project, from the bottom layer up. Files in
+ * later layers replace files at the same path in earlier ones.
+ */
+export function resolveLayers(config: ProjectConfig, template: Template): string[] {
+  const layers: string[] = [];
+  const seen = new Set<string>();
+
+  let current: Template | undefined = template;
+  while (current) {
+    if (seen.has(current.root)) {
+      throw new TemplateError(`Template "${current.spec}" extends itself`);
+    }
+    seen.add(current.root);
+    layers.unshift(current.root);
+    current = current.manifest.extends ? builtinTemplate(current.manifest.extends) : undefined;
+  }
+
+  for (const feature of FEATURE_OVERLAYS) {
+    if (!config.features[feature]) {
+      continue;
+    }
+
+    const custom = template.manifest.overlays?.[feature];
+    const overlay = custom ? resolve(template.root, custom) : resolve(FEATURES_DIR, feature);
+
+    if (custom && !existsSync(overlay)) {
+      throw new TemplateError(`Overlay "${custom}" for ${feature} not found in template "${template.spec}"`);
+    }
+
+    if (existsSync(overlay)) {
+      layers.push(overlay);
+    }
+  }
+
+  // Files an organization config adds to every project go on top
+  const extraFiles = config.extras?.files;
+  if (extraFiles) {
+    if (!existsSync(extraFiles)) {
+      throw new TemplateError(`Extra files directory "${extraFiles}" not found`);
+    }
+    layers.push(extraFiles);
+  }
+
+  return layers;
+}
+
+function listFiles(dir: string, exclude: string[] = []): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (IGNORED_ENTRIES.has(entry.name) || exclude.includes(path)) {
+      return [];
+    }
+    return entry.isDirectory() ? listFiles(path, exclude) : [path];
+  });
+}
+
+/**
+ * Map each project-relative path to the layer file that provides it
+ */
+export function composeTemplate(config: ProjectConfig, template: Template): Map<string, TemplateFile> {
+  const files = new Map<string, TemplateFile>();
+  const context = renderContext(config);
+
+  // A template's own overlay directories are layers of their own, not content
+  const overlayDirs = Object.values(template.manifest.overlays ?? {})
+    .map((overlay) => resolve(template.root, overlay));
+
+  for (const layer of resolveLayers(config, template)) {
+    const { files: conditions = {} } = readLayerManifest(layer);
+    const exclude = layer === template.root ? overlayDirs : [];
+
+    for (const file of listFiles(layer, exclude)) {
+      const relativePath = relative(layer, file).split(sep).join('/');
+      if (relativePath === MANIFEST_FILE) {
+        continue;
+      }
+
+      const render = relativePath.endsWith(TEMPLATE_SUFFIX);
+      const path = render ? relativePath.slice(0, -TEMPLATE_SUFFIX.length) : relativePath;
+
+      const condition = conditions[path];
+      if (condition !== undefined) {
+        try {
+          if (!evaluateCondition(condition, context)) {
+            continue;
+          }
+        } catch (error) {
+          throw new TemplateError(`${join(layer, MANIFEST_FILE)}: ${(error as Error).message}`);
+        }
+      }
+
+      files.set(path, { source: file, render });
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,55 @@
+export type TemplateName = 'minimal' | 'api' | 'full';
+export type CIProvider = 'github' | 'gitlab' | 'none';
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+export type HandlerKind = 'error' | 'transform' | 'finalize';
+export type ModuleKind = 'route' | 'middleware' | HandlerKind;
+
+export const TEMPLATES: TemplateName[] = ['minimal', 'api', 'full'];
+export const CI_PROVIDERS: CIProvider[] = ['github', 'gitlab', 'none'];
+export const PACKAGE_MANAGERS: PackageManager[] = ['npm', 'pnpm', 'yarn', 'bun'];
+export const HANDLER_KINDS: HandlerKind[] = ['error', 'transform', 'finalize'];
+
+export interface ProjectFeatures {
+  docker: boolean;
+  dockerCompose: boolean;
+  ci: CIProvider;
+  openapi: boolean;
+  auth: boolean;
+  observability: boolean;
+}
+
+export type TemplateVariables = Record<string, string | number | boolean>;
+
+/**
+ * Additions an organization config makes to every project it generates
+ */
+export interface ProjectExtras {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+
+  /**
+   * Directory of files copied over the template's (`.tmpl` files are
+   * rendered)
+   */
+  files?: string;
+}
+
+export interface ProjectConfig {
+  name: string;
+
+  /**
+   * Built-in template name, or the path/URL of a third-party template
+   */
+  template: string;
+  features: ProjectFeatures;
+  packageManager: PackageManager;
+  git: boolean;
+  gitCommit: boolean;
+  install: boolean;
+
+  /**
+   * Answers to the template's own prompts
+   */
+  vars: TemplateVariables;
+  extras?: ProjectExtras;
+}
@@ -0,0 +1,261 @@
+import { relative, sep } from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { FileAction, PlannedFile } from './output.js';
+import { unifiedDiff } from './diff.js';
+import { mergeThreeWay } from './merge.js';
+import { PROJECT_MANIFEST_FILE, serializeManifest } from './manifest.js';
+
+/**
+ * Updating an existing project from two renders of it: `before` is what the
+ * project looked like when it was generated, `after` is what it should look
+ * like now. Files still matching `before` are replaced; files the user has
+ * edited are left alone and reported with the change they are missing.
+ */
+
+export interface FileUpdate {
+  path: string;
+  content: Buffer;
+  executable: boolean;
+  action: FileAction;
+}
+
+export interface EditedFile {
+  path: string;
+
+  /**
+   * The generated change that could not be applied, as a unified diff
+   */
+  diff: string;
+}
+
+export interface UpdatePlan {
+  updates: FileUpdate[];
+  edited: EditedFile[];
+}
+
+export interface ConflictedFile {
+  path: string;
+
+  /**
+   * The merged file, with conflict markers around each conflict
+   */
+  content: Buffer;
+  conflicts: number;
+}
+
+export interface UpgradePlan {
+  updates: FileUpdate[];
+  conflicts: ConflictedFile[];
+
+  /**
+   * Files left alone, and why
+   */
+  skipped: { path: string; reason: string }[];
+}
+
+const PACKAGE_JSON_SECTIONS = ['dependencies', 'devDependencies', 'scripts'];
+
+const ENV_LINE_PATTERN = /^#?\s*([A-Z][A-Z0-9_]*)=/;
+
+/**
+ * Add dependencies and scripts the project doesn't have yet, keeping
+ * everything it already has (including versions it has bumped)
+ */
+export function mergePackageJson(current: string, generated: string): string {
+  const merged = JSON.parse(current);
+  const additions = JSON.parse(generated);
+
+  for (const section of PACKAGE_JSON_SECTIONS) {
+    for (const [key, value] of Object.entries(additions[section] ?? {})) {
+      merged[section] ??= {};
+      merged[section][key] ??= value;
+    }
+  }
+
+  return JSON.stringify(merged, null, 2) + (current.endsWith('\n') ? '\n' : '');
+}
+
+/**
+ * Append the variables the project's .env.example is missing. A section
+ * that is missing entirely is appended with its comments.
+ */
+export function appendEnvExample(current: string, generated: string): string {
+  const keys = new Set(
+    current.split('\n').map((line) => line.match(ENV_LINE_PATTERN)?.[1]).filter(Boolean)
+  );
+
+  const additions: string[] = [];
+
+  for (const section of generated.trim().split(/\n\s*\n/)) {
+    const lines = section.split('\n');
+    const variables = lines.filter((line) => ENV_LINE_PATTERN.test(line));
+    const missing = variables.filter((line) => !keys.has(line.match(ENV_LINE_PATTERN)![1]));
+
+    if (missing.length === 0) {
+      continue;
+    }
+
+    additions.push(missing.length === variables.length ? section : missing.join('\n'));
+  }
+
+  if (additions.length === 0) {
+    return current;
+  }
+
+  return `${current.replace(/\n*$/, '\n')}\n${additions.join('\n\n')}\n`;
+}
+
+/**
+ * Record the new configuration but keep the versions the project was
+ * generated with: only `upgrade` moves those on
+ */
+export function mergeProjectManifest(current: string, generated: string): string {
+  return serializeManifest({ ...JSON.parse(current), config: JSON.parse(generated).config });
+}
+
+function readExisting(path: string) {
+  return existsSync(path) ? readFileSync(path) : undefined;
+}
+
+export function planUpdate(
+  projectPath: string,
+  before: Map<string, PlannedFile>,
+  after: Map<string, PlannedFile>
+): UpdatePlan {
+  const plan: UpdatePlan = { updates: [], edited: [] };
+
+  for (const [path, file] of after) {
+    const label = relative(projectPath, path).split(sep).join('/');
+    const existing = readExisting(path);
+    const previous = before.get(path)?.content;
+
+    // Nothing to do if the file is already up to date, or if this change
+    // doesn't touch it (whether or not it was edited)
+    if (existing?.equals(file.content) || previous?.equals(file.content)) {
+      continue;
+    }
+
+    const update = (content: Buffer, action: FileUpdate['action']) => {
+      plan.updates.push({ path, content, executable: file.executable, action });
+    };
+
+    // Files everyone edits are merged instead of replaced
+    if (existing && label === 'package.json') {
+      const merged = mergePackageJson(existing.toString('utf-8'), file.content.toString('utf-8'));
+      if (merged !== existing.toString('utf-8')) {
+        update(Buffer.from(merged), 'merge');
+      }
+      continue;
+    }
+
+    // Projects generated before manifests were written don't get one here:
+    // it would claim the wrong version
+    if (label === PROJECT_MANIFEST_FILE) {
+      if (existing) {
+        update(Buffer.from(mergeProjectManifest(existing.toString('utf-8'), file.content.toString('utf-8'))), 'update');
+      }
+      continue;
+    }
+
+    if (existing && label === '.env.example') {
+      const appended = appendEnvExample(existing.toString('utf-8'), file.content.toString('utf-8'));
+      if (appended !== existing.toString('utf-8')) {
+        update(Buffer.from(appended), 'append');
+      }
+      continue;
+    }
+
+    if (!existing) {
+      if (previous) {
+        // Generated before but deleted since: don't bring it back silently
+        plan.edited.push({
+          path,
+          diff: unifiedDiff(previous.toString('utf-8'), file.content.toString('utf-8'), label)
+        });
+      } else {
+        update(file.content, 'create');
+      }
+      continue;
+    }
+
+    if (previous?.equals(existing)) {
+      update(file.content, 'update');
+      continue;
+    }
+
+    plan.edited.push({
+      path,
+      diff: unifiedDiff((previous ?? existing).toString('utf-8'), file.content.toString('utf-8'), label)
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Plan an upgrade from `before`, the project as the old version generated it,
+ * to `after`, as the new version generates it. Changes are merged into files
+ * the user has edited; changes that overlap the user's are conflicts.
+ */
+export function planUpgrade(
+  projectPath: string,
+  before: Map<string, PlannedFile>,
+  after: Map<string, PlannedFile>
+): UpgradePlan {
+  const plan: UpgradePlan = { updates: [], conflicts: [], skipped: [] };
+
+  for (const [path, file] of after) {
+    const label = relative(projectPath, path).split(sep).join('/');
+    const existing = readExisting(path);
+    const previous = before.get(path)?.content;
+
+    if (existing?.equals(file.content) || previous?.equals(file.content)) {
+      continue;
+    }
+
+    const update = (content: Buffer, action: FileAction) => {
+      plan.updates.push({ path, content, executable: file.executable, action });
+    };
+
+    // Always rewritten, to record the new version
+    if (label === PROJECT_MANIFEST_FILE) {
+      update(file.content, existing ? 'update' : 'create');
+      continue;
+    }
+
+    if (!existing) {
+      if (previous) {
+        plan.skipped.push({ path, reason: 'deleted from the project' });
+      } else {
+        update(file.content, 'create');
+      }
+      continue;
+    }
+
+    if (previous?.equals(existing)) {
+      update(file.content, 'update');
+      continue;
+    }
+
+    // A file the project already had is merged as if it started out empty
+    const merged = mergeThreeWay(
+      previous?.toString('utf-8') ?? '',
+      existing.toString('utf-8'),
+      file.content.toString('utf-8')
+    );
+
+    if (merged.conflicts > 0) {
+      plan.conflicts.push({ path, content: Buffer.from(merged.content), conflicts: merged.conflicts });
+    } else {
+      update(Buffer.from(merged.content), 'merge');
+    }
+  }
+
+  for (const path of before.keys()) {
+    if (!after.has(path) && readExisting(path)) {
+      plan.skipped.push({ path, reason: 'no longer generated; remove it if nothing uses it' });
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,99 @@
+/**
+ * YAML for the files we generate (docker-compose.yml, collector and
+ * Prometheus configs). Block style throughout, keys in insertion order, and
+ * `undefined` values left out so optional sections can be written inline.
+ */
+
+export type YamlValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | YamlValue[]
+  | { [key: string]: YamlValue };
+
+// Plain scalars a YAML 1.1 or 1.2 parser would read as something other than a string
+const RESERVED = /^(true|false|yes|no|y|n|on|off|null|~)$/i;
+const UNPRINTABLE = /[\x00-\x1f\x7f]/;
+const NUMBER_LIKE = /^[-+]?(\.?\d[\d_]*(\.\d*)?(e[-+]?\d+)?|0x[\da-f]+|0o[0-7]+|\.inf|\.nan|\d[\d_]*(:[0-5]?\d)+(\.\d*)?)$/i;
+
+function needsQuotes(value: string) {
+  return (
+    value === '' ||
+    value !== value.trim() ||
+    UNPRINTABLE.test(value) ||
+    RESERVED.test(value) ||
+    NUMBER_LIKE.test(value) ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /: | #|:$/.test(value)
+  );
+}
+
+function scalar(value: YamlValue): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  if (typeof value === 'object') {
+    return '{}';
+  }
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  if (!needsQuotes(value)) {
+    return value;
+  }
+
+  // Single quotes only escape themselves; anything unprintable needs double quotes
+  return UNPRINTABLE.test(value) ? JSON.stringify(value) : `'${value.replace(/'/g, "''")}'`;
+}
+
+// Objects and arrays with something in them go on their own lines
+function isBlock(value: YamlValue): value is YamlValue[] | { [key: string]: YamlValue } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.values(value).some((item) => item !== undefined)
+  );
+}
+
+function render(value: YamlValue[] | { [key: string]: YamlValue }, indent: string): string[] {
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (item === undefined) {
+        continue;
+      }
+      if (isBlock(item)) {
+        const [first, ...rest] = render(item, `${indent}  `);
+        lines.push(`${indent}- ${first.trimStart()}`, ...rest);
+      } else {
+        lines.push(`${indent}- ${scalar(item)}`);
+      }
+    }
+    return lines;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) {
+      continue;
+    }
+    if (isBlock(item)) {
+      lines.push(`${indent}${scalar(key)}:`, ...render(item, `${indent}  `));
+    } else {
+      lines.push(`${indent}${scalar(key)}: ${scalar(item)}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Render a document
+ */
+export function toYaml(document: YamlValue[] | { [key: string]: YamlValue }): string {
+  return render(document, '').map((line) => `${line}\n`).join('');
+}
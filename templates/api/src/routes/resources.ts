@@ -0,0 +1,12 @@
+import { Application } from 'filamentjs';
+import { AppMeta } from '../meta/index.js';
+import { registerUserRoutes } from './users.js';
+
+/**
+ * Register resource routes
+ *
+ * Mount your application's resources here, one module per resource.
+ */
+export function registerResourceRoutes(app: Application<AppMeta>) {
+  registerUserRoutes(app);
+}
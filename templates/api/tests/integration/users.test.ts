@@ -0,0 +1,88 @@
+import { suite, before, after } from 'node:test';
+import { TestBattery } from 'test-battery';
+import { Application, createApp } from 'filamentjs';
+import { AppMeta } from '../../src/meta/index.js';
+import { defaultMeta } from '../../src/meta/defaults.js';
+import { registerUserRoutes } from '../../src/routes/users.js';
+import { registerErrorHandlers } from '../../src/handlers/errors.js';
+import { registerValidation } from '../../src/middleware/validate.js';
+
+const PORT = 3103;
+const BASE_URL = `http://localhost:${PORT}`;
+
+function createUser(body: unknown) {
+  return fetch(`${BASE_URL}/users`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+suite('Users API', () => {
+  let app: Application<AppMeta>;
+
+  before(async () => {
+    // Routes and validation only: authentication is covered by its own tests
+    app = createApp(defaultMeta);
+    registerValidation(app);
+    registerUserRoutes(app);
+    registerErrorHandlers(app);
+
+    await new Promise<void>((resolve) => app.listen(PORT, resolve));
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  TestBattery.test('creates and fetches a user', async (battery) => {
+    const created = await createUser({ name: 'Ada', email: 'ada@example.com' });
+    const { user } = await created.json();
+    const fetched = await (await fetch(`${BASE_URL}/users/${user.id}`)).json();
+
+    battery.test('create returns 201').value(created.status).value(201).equal;
+    battery.test('fetched user matches').value(fetched.user.email).value('ada@example.com').equal;
+  });
+
+  TestBattery.test('rejects invalid users with 422', async (battery) => {
+    const res = await createUser({ email: 'not-an-email' });
+    const problem = await res.json();
+
+    battery.test('status is 422').value(res.status).value(422).equal;
+    battery.test('problem+json')
+      .value(res.headers.get('content-type')).value('application/problem+json').equal;
+    battery.test('each invalid field reported')
+      .value(problem.errors.map((error: { field: string }) => error.field).join(', ')).value('name, email').equal;
+  });
+
+  TestBattery.test('query parameters are validated and parsed', async (battery) => {
+    await createUser({ name: 'Linus', email: 'linus@example.com' });
+    const limited = await (await fetch(`${BASE_URL}/users?limit=1`)).json();
+    const invalid = await fetch(`${BASE_URL}/users?limit=0`);
+    const problem = await invalid.json();
+
+    battery.test('limit applied').value(limited.users.length).value(1).equal;
+    battery.test('out of range is 422').value(invalid.status).value(422).equal;
+    battery.test('violation reported')
+      .value(problem.errors[0]?.field).value('query.limit').equal;
+  });
+
+  TestBattery.test('unknown users are 404', async (battery) => {
+    const res = await fetch(`${BASE_URL}/users/does-not-exist`, { headers: { 'x-request-id': 'req-123' } });
+    const problem = await res.json();
+
+    battery.test('status is 404').value(res.status).value(404).equal;
+    battery.test('title').value(problem.title).value('Not Found').equal;
+    battery.test('detail').value(problem.detail).value('User does-not-exist not found').equal;
+    battery.test('request ID echoed').value(problem.requestId).value('req-123').equal;
+  });
+
+  TestBattery.test('deletes a user', async (battery) => {
+    const { user } = await (await createUser({ name: 'Grace', email: 'grace@example.com' })).json();
+    const deleted = await fetch(`${BASE_URL}/users/${user.id}`, { method: 'DELETE' });
+    const fetched = await fetch(`${BASE_URL}/users/${user.id}`);
+
+    battery.test('delete returns 204').value(deleted.status).value(204).equal;
+    battery.test('user is gone').value(fetched.status).value(404).equal;
+  });
+});
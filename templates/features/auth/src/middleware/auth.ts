@@ -0,0 +1,167 @@
+import { Application } from 'filamentjs';
+import jwt from 'jsonwebtoken';
+import { AppMeta } from '../meta/index.js';
+import { config } from '../config/app.js';
+import { ForbiddenError, UnauthorizedError } from '../errors/index.js';
+import { SessionStore, createRedisSessionStore } from '../services/sessions.js';
+
+/**
+ * Authenticated user attached to the request
+ */
+export interface AuthUser {
+  id: string;
+  role: 'admin' | 'user';
+}
+
+declare module 'filamentjs' {
+  interface Request {
+    user?: AuthUser;
+  }
+}
+
+export interface AuthOptions {
+  /**
+   * Secret used to verify (and sign) HS256 tokens
+   */
+  secret: string;
+
+  /**
+   * Token lifetime used by signToken, e.g. '7d' or '15m'
+   */
+  expiresIn: string;
+
+  /**
+   * Expected `iss` claim, for tokens issued by an OAuth/OIDC provider
+   */
+  issuer?: string;
+
+  /**
+   * Expected `aud` claim, for tokens issued by an OAuth/OIDC provider
+   */
+  audience?: string;
+
+  /**
+   * Session lookup for cookie-based sessions. Defaults to Redis.
+   */
+  sessions?: SessionStore;
+}
+
+const SESSION_COOKIE = 'sid';
+
+// Higher roles satisfy the requirements of lower ones
+const ROLE_RANK: Record<AuthUser['role'], number> = {
+  user: 1,
+  admin: 2,
+};
+
+function defaultOptions(): AuthOptions {
+  return {
+    secret: config.auth.jwtSecret,
+    expiresIn: config.auth.jwtExpiry,
+    issuer: config.auth.jwtIssuer,
+    audience: config.auth.jwtAudience,
+  };
+}
+
+/**
+ * Issue a token for a user
+ */
+export function signToken(user: AuthUser, options: AuthOptions = defaultOptions()): string {
+  return jwt.sign({ role: user.role }, options.secret, {
+    algorithm: 'HS256',
+    subject: user.id,
+    expiresIn: options.expiresIn as jwt.SignOptions['expiresIn'],
+    issuer: options.issuer,
+    audience: options.audience,
+  });
+}
+
+/**
+ * Verify a bearer token and return its user, or undefined if it is invalid
+ */
+export function verifyToken(token: string, options: AuthOptions = defaultOptions()): AuthUser | undefined {
+  try {
+    const payload = jwt.verify(token, options.secret, {
+      algorithms: ['HS256'],
+      issuer: options.issuer,
+      audience: options.audience,
+    });
+
+    if (typeof payload === 'string' || !payload.sub) {
+      return undefined;
+    }
+
+    return {
+      id: payload.sub,
+      role: payload.role === 'admin' ? 'admin' : 'user',
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+function bearerToken(header: string | string[] | undefined): string | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1];
+}
+
+function sessionId(header: string | string[] | undefined): string | undefined {
+  const value = Array.isArray(header) ? header.join('; ') : header;
+
+  for (const part of value?.split(';') ?? []) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Register authentication middleware
+ *
+ * Resolves the user from a bearer token or session cookie, then enforces
+ * `requiresAuth`, `requiresSession` and `role` from the endpoint metadata.
+ */
+export function registerAuth(app: Application<AppMeta>, options: AuthOptions = defaultOptions()) {
+  let sessions = options.sessions;
+
+  app.use(async (req, res, next) => {
+    const { requiresAuth, requiresSession, role } = req.endpointMeta;
+
+    const token = bearerToken(req.headers.authorization);
+    const sid = sessionId(req.headers.cookie);
+
+    if (token) {
+      req.user = verifyToken(token, options);
+    }
+
+    let sessionUser: AuthUser | undefined;
+    if (sid && (requiresSession || !req.user)) {
+      sessions ??= createRedisSessionStore();
+      sessionUser = await sessions.get(sid);
+    }
+
+    req.user ??= sessionUser;
+
+    const needsUser = requiresAuth || requiresSession || role !== undefined;
+
+    if (needsUser && !req.user) {
+      throw new UnauthorizedError(token ? 'Invalid or expired token' : 'Authentication required', {
+        headers: { 'WWW-Authenticate': token ? 'Bearer error="invalid_token"' : 'Bearer' },
+      });
+    }
+
+    if (requiresSession && !sessionUser) {
+      throw new UnauthorizedError('A session is required for this endpoint');
+    }
+
+    if (role && req.user && ROLE_RANK[req.user.role] < ROLE_RANK[role]) {
+      throw new ForbiddenError(`Requires role "${role}"`);
+    }
+
+    await next();
+  });
+}
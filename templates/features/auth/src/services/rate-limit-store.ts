@@ -0,0 +1,32 @@
+import { getRedis, RedisClient } from './redis.js';
+import type { RateLimitHit, RateLimitStore } from '../middleware/rate-limit.js';
+
+/**
+ * Fixed-window counters shared through Redis, so limits hold across
+ * every replica of the app.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private prefix = 'ratelimit:',
+    private redis: () => Promise<RedisClient> = getRedis
+  ) {}
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const redis = await this.redis();
+    const redisKey = this.prefix + key;
+
+    // One reply per command: the count, whether the expiry was set, the TTL
+    const [count, , ttl] = await redis
+      .multi()
+      .incr(redisKey)
+      .pExpire(redisKey, windowMs, 'NX')
+      .pTTL(redisKey)
+      .exec();
+    const remaining = Number(ttl);
+
+    return {
+      count: Number(count),
+      resetAt: Date.now() + (remaining > 0 ? remaining : windowMs),
+    };
+  }
+}
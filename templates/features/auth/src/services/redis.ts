@@ -0,0 +1,68 @@
+import { createClient } from 'redis';
+import { config } from '../config/app.js';
+import { logger } from '../logging/index.js';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+let client: RedisClient | undefined;
+let connecting: Promise<unknown> | undefined;
+
+/**
+ * Shared Redis client, connected on first use
+ */
+export async function getRedis(): Promise<RedisClient> {
+  if (!client) {
+    client = createClient({ url: config.redisUrl });
+    // Without a listener a dropped connection is an uncaught exception
+    client.on('error', (error) => logger.error({ err: error }, 'Redis connection error'));
+  }
+
+  const current = client;
+  connecting ??= current.connect().catch((error) => {
+    // Start over on the next call instead of caching the failure
+    client = undefined;
+    connecting = undefined;
+    throw error;
+  });
+  await connecting;
+  return current;
+}
+
+const PING_TIMEOUT = 1000;
+
+/**
+ * Readiness check: Redis answers a PING in time
+ *
+ * Fails straight away while the client is reconnecting, and gives up on a
+ * connect or PING that takes too long, so each probe reports the current
+ * state of the connection instead of waiting behind it.
+ */
+export async function pingRedis() {
+  if (client?.isOpen && !client.isReady) {
+    throw new Error('Redis is reconnecting');
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      getRedis().then((redis) => redis.ping()),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Redis did not answer within ${PING_TIMEOUT}ms`)),
+          PING_TIMEOUT
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Shutdown hook: close the connection once pending commands have run
+ */
+export async function closeRedis() {
+  if (client?.isOpen) {
+    await client.quit();
+  }
+}
@@ -0,0 +1,29 @@
+import { getRedis } from './redis.js';
+import type { AuthUser } from '../middleware/auth.js';
+
+/**
+ * Looks up the user behind a session ID
+ */
+export interface SessionStore {
+  get(id: string): Promise<AuthUser | undefined>;
+}
+
+/**
+ * Session store backed by Redis. Sessions are stored as JSON under
+ * `session:<id>` with a `user` property.
+ */
+export function createRedisSessionStore(): SessionStore {
+  return {
+    async get(id) {
+      const redis = await getRedis();
+
+      const raw = await redis.get(`session:${id}`);
+      if (!raw) {
+        return undefined;
+      }
+
+      const session = JSON.parse(raw) as { user?: AuthUser };
+      return session.user;
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import { suite, before, after } from 'node:test';
+import { TestBattery } from 'test-battery';
+import { Application, createApp } from 'filamentjs';
+import { AppMeta } from '../../src/meta/index.js';
+import { defaultMeta, PUBLIC, AUTHENTICATED, ADMIN } from '../../src/meta/defaults.js';
+import { AuthOptions, AuthUser, registerAuth, signToken } from '../../src/middleware/auth.js';
+import { registerErrorHandlers } from '../../src/handlers/errors.js';
+
+const PORT = 3101;
+const BASE_URL = `http://localhost:${PORT}`;
+
+const sessions = new Map<string, AuthUser>([
+  ['valid-session', { id: 'session-user', role: 'user' }],
+]);
+
+const options: AuthOptions = {
+  secret: 'test-secret',
+  expiresIn: '5m',
+  sessions: {
+    async get(id) {
+      return sessions.get(id);
+    },
+  },
+};
+
+const userToken = signToken({ id: 'alice', role: 'user' }, options);
+const adminToken = signToken({ id: 'root', role: 'admin' }, options);
+const expiredToken = signToken({ id: 'alice', role: 'user' }, { ...options, expiresIn: '-1s' });
+const foreignToken = signToken({ id: 'alice', role: 'user' }, { ...options, secret: 'other-secret' });
+
+function request(path: string, headers: Record<string, string> = {}) {
+  return fetch(`${BASE_URL}${path}`, { headers });
+}
+
+function bearer(token: string) {
+  return { authorization: `Bearer ${token}` };
+}
+
+suite('Authentication middleware', () => {
+  let app: Application<AppMeta>;
+
+  before(async () => {
+    app = createApp(defaultMeta);
+    registerAuth(app, options);
+
+    app.get('/public', PUBLIC, async (req, res) => {
+      res.json({ user: req.user ?? null });
+    });
+    app.get('/private', AUTHENTICATED, async (req, res) => {
+      res.json({ user: req.user });
+    });
+    app.get('/admin', ADMIN, async (req, res) => {
+      res.json({ user: req.user });
+    });
+    app.get('/session', { ...AUTHENTICATED, requiresSession: true }, async (req, res) => {
+      res.json({ user: req.user });
+    });
+    registerErrorHandlers(app);
+
+    await new Promise<void>((resolve) => app.listen(PORT, resolve));
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  TestBattery.test('public endpoints do not require a token', async (battery) => {
+    const res = await request('/public');
+    battery.test('status is 200').value(res.status).value(200).equal;
+  });
+
+  TestBattery.test('public endpoints still see a valid user', async (battery) => {
+    const body = await (await request('/public', bearer(userToken))).json();
+    battery.test('user id is attached').value(body.user.id).value('alice').equal;
+  });
+
+  TestBattery.test('missing token is rejected with 401', async (battery) => {
+    const res = await request('/private');
+    battery.test('status is 401').value(res.status).value(401).equal;
+    battery.test('challenge is sent')
+      .value(res.headers.get('www-authenticate')).value('Bearer').equal;
+  });
+
+  TestBattery.test('valid token attaches the user', async (battery) => {
+    const res = await request('/private', bearer(userToken));
+    const body = await res.json();
+    battery.test('status is 200').value(res.status).value(200).equal;
+    battery.test('user id comes from sub').value(body.user.id).value('alice').equal;
+    battery.test('role comes from claims').value(body.user.role).value('user').equal;
+  });
+
+  TestBattery.test('expired and foreign tokens are rejected with 401', async (battery) => {
+    const expired = await request('/private', bearer(expiredToken));
+    const foreign = await request('/private', bearer(foreignToken));
+    const garbage = await request('/private', bearer('not-a-jwt'));
+    battery.test('expired token is 401').value(expired.status).value(401).equal;
+    battery.test('token with wrong signature is 401').value(foreign.status).value(401).equal;
+    battery.test('malformed token is 401').value(garbage.status).value(401).equal;
+  });
+
+  TestBattery.test('insufficient role is rejected with 403', async (battery) => {
+    const res = await request('/admin', bearer(userToken));
+    const problem = await res.json();
+    battery.test('status is 403').value(res.status).value(403).equal;
+    battery.test('reason is given').value(problem.detail).value('Requires role "admin"').equal;
+  });
+
+  TestBattery.test('matching role is allowed', async (battery) => {
+    const res = await request('/admin', bearer(adminToken));
+    battery.test('status is 200').value(res.status).value(200).equal;
+  });
+
+  TestBattery.test('session endpoints require a session cookie', async (battery) => {
+    const withToken = await request('/session', bearer(userToken));
+    const withSession = await request('/session', { cookie: 'sid=valid-session' });
+    const withUnknown = await request('/session', { cookie: 'sid=unknown' });
+    battery.test('token alone is 401').value(withToken.status).value(401).equal;
+    battery.test('valid session is 200').value(withSession.status).value(200).equal;
+    battery.test('unknown session is 401').value(withUnknown.status).value(401).equal;
+  });
+});
@@ -0,0 +1,36 @@
+import { suite } from 'node:test';
+import { TestBattery } from 'test-battery';
+import { RedisClient } from '../../src/services/redis.js';
+import { RedisRateLimitStore } from '../../src/services/rate-limit-store.js';
+
+// Answers a MULTI the way Redis does: one reply per queued command, in order
+function fakeRedis(replies: unknown[]) {
+  const multi = {
+    incr: () => multi,
+    pExpire: () => multi,
+    pTTL: () => multi,
+    exec: async () => replies,
+  };
+  return async () => ({ multi: () => multi }) as unknown as RedisClient;
+}
+
+suite('Redis rate limit store', () => {
+  TestBattery.test('the window resets when its key expires', async (battery) => {
+    const store = new RedisRateLimitStore('test:', fakeRedis([3, false, 42_000]));
+    const before = Date.now();
+    const hit = await store.hit('client', 60_000);
+
+    battery.test('count').value(hit.count).value(3).equal;
+    battery.test('reset from the remaining TTL')
+      .value(hit.resetAt >= before + 42_000 && hit.resetAt <= Date.now() + 42_000).value(true).equal;
+  });
+
+  TestBattery.test('a key without a TTL gets a full window', async (battery) => {
+    const store = new RedisRateLimitStore('test:', fakeRedis([1, true, -1]));
+    const before = Date.now();
+    const hit = await store.hit('client', 60_000);
+
+    battery.test('reset a window from now')
+      .value(hit.resetAt >= before + 60_000 && hit.resetAt <= Date.now() + 60_000).value(true).equal;
+  });
+});
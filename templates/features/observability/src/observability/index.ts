@@ -0,0 +1,98 @@
+import { Application, Request } from 'filamentjs';
+import { context, propagation, trace, Span, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { AppMeta } from '../meta/index.js';
+import { registry, httpRequestDuration, httpRequestsTotal } from './metrics.js';
+
+export { checkTraceExporter, isTracingEnabled, shutdownTracing } from './tracing.js';
+
+const tracer = trace.getTracer('filament');
+
+interface RequestTelemetry {
+  span: Span;
+  start: bigint;
+}
+
+const telemetry = new WeakMap<Request, RequestTelemetry>();
+
+/**
+ * Route label for metrics and span names
+ *
+ * Replaces ID-like path segments with `:id` to keep label cardinality
+ * bounded.
+ */
+export function routeLabel(path: string): string {
+  return path
+    .split('/')
+    .map((segment) =>
+      /^\d+$/.test(segment) || /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment)
+        ? ':id'
+        : segment
+    )
+    .join('/');
+}
+
+/**
+ * Start a server span for each request
+ *
+ * Register first so the span covers every other middleware. Incoming
+ * `traceparent` headers continue the caller's trace.
+ */
+export function registerObservabilityMiddleware(app: Application<AppMeta>) {
+  app.use(async (req, res, next) => {
+    const route = routeLabel(req.path);
+    const parent = propagation.extract(context.active(), req.headers);
+
+    const span = tracer.startSpan(`${req.method} ${route}`, {
+      kind: SpanKind.SERVER,
+      attributes: {
+        'http.request.method': req.method,
+        'http.route': route,
+        'url.path': req.path,
+      },
+    }, parent);
+
+    telemetry.set(req, { span, start: process.hrtime.bigint() });
+
+    // Make the span current so spans created by handlers become its children
+    await context.with(trace.setSpan(parent, span), () => next());
+  });
+}
+
+/**
+ * End the request span and record HTTP metrics
+ */
+export function registerObservabilityFinalizer(app: Application<AppMeta>) {
+  app.onFinalize(async (req, res) => {
+    const entry = telemetry.get(req);
+    if (!entry) {
+      return;
+    }
+
+    const labels = {
+      method: req.method,
+      route: routeLabel(req.path),
+      status: String(res.statusCode),
+    };
+    const seconds = Number(process.hrtime.bigint() - entry.start) / 1e9;
+
+    httpRequestDuration.observe(labels, seconds);
+    httpRequestsTotal.inc(labels);
+
+    entry.span.setAttribute('http.response.status_code', res.statusCode);
+    if (res.statusCode >= 500) {
+      entry.span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    entry.span.end();
+    telemetry.delete(req);
+  });
+}
+
+/**
+ * Serve Prometheus metrics at /metrics
+ */
+export function registerMetricsRoute(app: Application<AppMeta>) {
+  app.get('/metrics', { rateLimit: 0, logging: { level: 'warn' } }, async (req, res) => {
+    res.setHeader('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+  });
+}
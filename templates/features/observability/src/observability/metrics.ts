@@ -0,0 +1,23 @@
+import { Registry, Histogram, Counter, collectDefaultMetrics } from 'prom-client';
+
+/**
+ * Prometheus metrics registry
+ */
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry });
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request duration in seconds',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry],
+});
+
+export const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'Total number of HTTP requests',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [registry],
+});
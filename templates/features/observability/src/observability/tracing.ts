@@ -0,0 +1,60 @@
+import { NodeSDK } from '@opentelemetry/sdk-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { ExportResult, ExportResultCode } from '@opentelemetry/core';
+import { config } from '../config/app.js';
+
+/**
+ * OpenTelemetry SDK bootstrap
+ *
+ * Imported first thing in src/index.ts so the SDK is running before any
+ * other module loads. Tracing is only enabled when
+ * OTEL_EXPORTER_OTLP_ENDPOINT is set.
+ */
+
+const { endpoint, serviceName } = config.otel;
+
+let sdk: NodeSDK | undefined;
+let lastExport: ExportResult | undefined;
+
+if (endpoint) {
+  const traceExporter = new OTLPTraceExporter({
+    url: `${endpoint.replace(/\/$/, '')}/v1/traces`,
+  });
+
+  // Remember how the latest batch went, for the readiness check
+  const exportSpans = traceExporter.export.bind(traceExporter);
+  traceExporter.export = (spans, done) =>
+    exportSpans(spans, (result) => {
+      lastExport = result;
+      done(result);
+    });
+
+  sdk = new NodeSDK({ serviceName, traceExporter });
+  sdk.start();
+}
+
+/**
+ * Whether spans are being exported
+ */
+export function isTracingEnabled() {
+  return sdk !== undefined;
+}
+
+/**
+ * Readiness check: the latest batch of spans reached the collector
+ */
+export function checkTraceExporter() {
+  if (!sdk) {
+    return 'disabled';
+  }
+  if (lastExport?.code === ExportResultCode.FAILED) {
+    throw new Error(`Exporting spans failed: ${lastExport.error?.message ?? 'unknown error'}`);
+  }
+}
+
+/**
+ * Flush pending spans and stop the SDK
+ */
+export async function shutdownTracing() {
+  await sdk?.shutdown();
+}
@@ -0,0 +1,20 @@
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { createApp } from 'filamentjs';
+import { defaultMeta } from '../meta/defaults.js';
+import { registerRoutes } from '../routes/index.js';
+import { buildOpenApiDocument, trackRoutes } from './index.js';
+
+/**
+ * Write the OpenAPI document to disk for client generation
+ *
+ * Usage: npm run openapi:export [-- <output file>]
+ */
+const output = resolve(process.argv[2] ?? 'openapi.json');
+
+const app = createApp(defaultMeta);
+const routes = trackRoutes(app);
+registerRoutes(app);
+
+writeFileSync(output, JSON.stringify(buildOpenApiDocument(routes), null, 2) + '\n');
+console.log(`OpenAPI document written to ${output}`);
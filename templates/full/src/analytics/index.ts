@@ -0,0 +1,47 @@
+import { logger } from '../logging/index.js';
+
+/**
+ * An analytics event, from the server or collected from clients
+ */
+export interface AnalyticsEvent {
+  name: string;
+  properties: Record<string, unknown>;
+  userId?: string;
+  timestamp: string;
+}
+
+/**
+ * Destination for analytics events (warehouse, queue, SaaS, ...)
+ */
+export interface EventSink {
+  write(events: AnalyticsEvent[]): Promise<void>;
+}
+
+/**
+ * Default sink: structured log lines, ready to be shipped by your log pipeline
+ */
+export const logSink: EventSink = {
+  async write(events) {
+    for (const event of events) {
+      logger.info({ ...event, event: 'analytics' });
+    }
+  },
+};
+
+let sink: EventSink = logSink;
+
+/**
+ * Replace the sink events are written to
+ */
+export function setEventSink(next: EventSink) {
+  sink = next;
+}
+
+/**
+ * Record events
+ */
+export async function trackEvents(events: AnalyticsEvent[]) {
+  if (events.length > 0) {
+    await sink.write(events);
+  }
+}
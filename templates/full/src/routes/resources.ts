@@ -0,0 +1,14 @@
+import { Application } from 'filamentjs';
+import { AppMeta } from '../meta/index.js';
+import { registerUserRoutes } from './users.js';
+import { registerEventRoutes } from './events.js';
+
+/**
+ * Register resource routes
+ *
+ * Mount your application's resources here, one module per resource.
+ */
+export function registerResourceRoutes(app: Application<AppMeta>) {
+  registerUserRoutes(app);
+  registerEventRoutes(app);
+}
@@ -0,0 +1,69 @@
+import { suite, before, after, beforeEach } from 'node:test';
+import { TestBattery } from 'test-battery';
+import { Application, createApp } from 'filamentjs';
+import { AppMeta } from '../../src/meta/index.js';
+import { defaultMeta } from '../../src/meta/defaults.js';
+import { AnalyticsEvent, setEventSink, logSink } from '../../src/analytics/index.js';
+import { registerEventRoutes } from '../../src/routes/events.js';
+import { registerErrorHandlers } from '../../src/handlers/errors.js';
+
+const PORT = 3104;
+const BASE_URL = `http://localhost:${PORT}`;
+
+let received: AnalyticsEvent[] = [];
+
+function sendEvents(body: unknown) {
+  return fetch(`${BASE_URL}/events`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+suite('Analytics events', () => {
+  let app: Application<AppMeta>;
+
+  before(async () => {
+    setEventSink({
+      async write(events) {
+        received.push(...events);
+      },
+    });
+
+    app = createApp(defaultMeta);
+    registerEventRoutes(app);
+    registerErrorHandlers(app);
+
+    await new Promise<void>((resolve) => app.listen(PORT, resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  after(async () => {
+    setEventSink(logSink);
+    await app.close();
+  });
+
+  TestBattery.test('accepts a single event', async (battery) => {
+    const res = await sendEvents({ name: 'signup', properties: { plan: 'pro' } });
+    battery.test('status is 202').value(res.status).value(202).equal;
+    battery.test('event reaches the sink').value(received[0]?.name).value('signup').equal;
+  });
+
+  TestBattery.test('accepts a batch of events', async (battery) => {
+    const res = await sendEvents([{ name: 'page.view' }, { name: 'page.view' }]);
+    battery.test('status is 202').value(res.status).value(202).equal;
+    battery.test('all events reach the sink').value(received.length).value(2).equal;
+  });
+
+  TestBattery.test('rejects malformed events', async (battery) => {
+    const res = await sendEvents([{ name: 'ok' }, { properties: {} }]);
+    const problem = await res.json();
+
+    battery.test('status is 422').value(res.status).value(422).equal;
+    battery.test('invalid event reported').value(problem.errors[0]?.field).value('[1]').equal;
+    battery.test('nothing reaches the sink').value(received.length).value(0).equal;
+  });
+});
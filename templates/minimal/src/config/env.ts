@@ -0,0 +1,137 @@
+import { existsSync } from 'fs';
+
+/**
+ * Typed environment variables, validated against a schema (see schema.ts)
+ */
+
+export type EnvType = 'string' | 'number' | 'boolean' | 'url';
+
+export interface EnvVariable {
+  type: EnvType;
+  description: string;
+  default?: string;
+  choices?: readonly string[];
+
+  /**
+   * Must be set, there's no default
+   */
+  required?: boolean;
+
+  /**
+   * Must be set to something other than the default in production
+   */
+  secret?: boolean;
+}
+
+export type EnvSchema = Record<string, EnvVariable>;
+
+type ValueOf<V extends EnvVariable> = V extends { choices: readonly (infer C)[] }
+  ? C
+  : V['type'] extends 'number'
+    ? number
+    : V['type'] extends 'boolean'
+      ? boolean
+      : string;
+
+/**
+ * Parsed values: variables with a default or that are required are always set
+ */
+export type Env<S extends EnvSchema> = {
+  [K in keyof S]: S[K] extends { default: string } | { required: true }
+    ? ValueOf<S[K]>
+    : ValueOf<S[K]> | undefined;
+};
+
+/**
+ * Raised with every missing or invalid variable at once
+ */
+export class EnvError extends Error {
+  constructor(readonly problems: string[]) {
+    const list = problems.map((problem) => `  - ${problem}`).join('\n');
+    super(`Invalid environment configuration:\n${list}`);
+    this.name = 'EnvError';
+  }
+}
+
+function parseValue(name: string, variable: EnvVariable, raw: string): number | boolean | string {
+  if (variable.choices && !variable.choices.includes(raw)) {
+    throw new Error(`${name} must be one of ${variable.choices.join(', ')} (got "${raw}")`);
+  }
+
+  switch (variable.type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || Number.isNaN(value)) {
+        throw new Error(`${name} must be a number (got "${raw}")`);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (raw !== 'true' && raw !== 'false') {
+        throw new Error(`${name} must be true or false (got "${raw}")`);
+      }
+      return raw === 'true';
+    case 'url':
+      try {
+        new URL(raw);
+      } catch {
+        throw new Error(`${name} must be a URL (got "${raw}")`);
+      }
+      return raw;
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Read and validate the variables in `schema` from `env`
+ *
+ * @throws EnvError listing every missing or invalid variable
+ */
+export function loadEnv<S extends EnvSchema>(schema: S, env: NodeJS.ProcessEnv = process.env): Env<S> {
+  const production = env.NODE_ENV === 'production';
+  const values: Record<string, unknown> = {};
+  const problems: string[] = [];
+
+  for (const [name, variable] of Object.entries(schema)) {
+    // Empty values (`NAME=`) count as unset
+    const raw = env[name] || undefined;
+
+    if (variable.secret && production && (raw === undefined || raw === variable.default)) {
+      problems.push(`${name} must be set to a real secret in production (${variable.description})`);
+      continue;
+    }
+
+    if (raw === undefined && variable.required) {
+      problems.push(`${name} is required (${variable.description})`);
+      continue;
+    }
+
+    const value = raw ?? variable.default;
+    if (value === undefined) {
+      continue;
+    }
+
+    try {
+      values[name] = parseValue(name, variable, value);
+    } catch (error) {
+      problems.push((error as Error).message);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new EnvError(problems);
+  }
+
+  return values as Env<S>;
+}
+
+/**
+ * Load `.env` into `process.env` outside production. Variables that are
+ * already set win.
+ */
+export function loadDotEnv(path = '.env') {
+  if (process.env.NODE_ENV !== 'production' && existsSync(path)) {
+    process.loadEnvFile(path);
+  }
+}
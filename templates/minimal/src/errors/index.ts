@@ -0,0 +1,168 @@
+/**
+ * HTTP errors
+ *
+ * Throw these from routes and middleware: the error handler in
+ * handlers/errors.ts turns them into `application/problem+json` responses
+ * (RFC 7807) with the right status code. Anything else thrown is a 500.
+ */
+
+export const STATUS_TITLES: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  422: 'Unprocessable Content',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+};
+
+export interface HttpErrorOptions {
+  /**
+   * URI identifying the kind of problem (default: about:blank)
+   */
+  type?: string;
+
+  /**
+   * Response headers to send with the problem, e.g. WWW-Authenticate
+   */
+  headers?: Record<string, string>;
+  cause?: unknown;
+}
+
+export class HttpError extends Error {
+  readonly type: string;
+  readonly title: string;
+  readonly headers: Record<string, string>;
+
+  constructor(
+    readonly status: number,
+    detail?: string,
+    options: HttpErrorOptions = {}
+  ) {
+    const title = STATUS_TITLES[status] ?? `HTTP ${status}`;
+    super(detail ?? title, { cause: options.cause });
+    this.name = 'HttpError';
+    this.type = options.type ?? 'about:blank';
+    this.title = title;
+    this.headers = options.headers ?? {};
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(400, detail, options);
+    this.name = 'BadRequestError';
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(401, detail, options);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(403, detail, options);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(404, detail, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(detail?: string, options?: HttpErrorOptions) {
+    super(409, detail, options);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * A problem with one field of the request, e.g. `{ field: 'email', message:
+ * 'must be an email address' }`. Nested fields use dots and indexes
+ * (`items[2].name`).
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export class ValidationError extends HttpError {
+  constructor(
+    readonly errors: FieldError[],
+    detail = 'The request is invalid',
+    options?: HttpErrorOptions
+  ) {
+    super(422, detail, options);
+    this.name = 'ValidationError';
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  constructor(detail?: string, retryAfterSeconds?: number, options: HttpErrorOptions = {}) {
+    const headers =
+      retryAfterSeconds === undefined
+        ? options.headers
+        : { ...options.headers, 'Retry-After': String(retryAfterSeconds) };
+    super(429, detail, { ...options, headers });
+    this.name = 'TooManyRequestsError';
+  }
+}
+
+/**
+ * RFC 7807 problem details, plus the request ID, per-field validation errors
+ * and (in development) the stack trace
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  requestId?: string;
+  errors?: FieldError[];
+  stack?: string;
+}
+
+export interface ProblemContext {
+  instance?: string;
+  requestId?: string;
+
+  /**
+   * Include the stack trace (development only)
+   */
+  stack?: boolean;
+}
+
+/**
+ * The problem details for any thrown value. Details of unexpected errors are
+ * only included alongside the stack trace.
+ */
+export function toProblem(error: unknown, context: ProblemContext = {}): ProblemDetails {
+  const http = error instanceof HttpError ? error : new HttpError(500);
+  const problem: ProblemDetails = {
+    type: http.type,
+    title: http.title,
+    status: http.status,
+  };
+
+  if (error instanceof HttpError && error.message !== error.title) {
+    problem.detail = error.message;
+  } else if (!(error instanceof HttpError) && context.stack && error instanceof Error) {
+    problem.detail = error.message;
+  }
+
+  if (context.instance) problem.instance = context.instance;
+  if (context.requestId) problem.requestId = context.requestId;
+  if (error instanceof ValidationError) problem.errors = error.errors;
+  if (context.stack && error instanceof Error) problem.stack = error.stack;
+
+  return problem;
+}
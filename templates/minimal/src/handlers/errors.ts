@@ -1,20 +1,52 @@
-import { Application } from 'filamentjs';
+import { Application, Request, Response } from 'filamentjs';
 import { AppMeta } from '../meta/index.js';
-import pino from 'pino';
+import { config } from '../config/app.js';
+import { HttpError, toProblem } from '../errors/index.js';
+import { endpointLogger, requestId } from '../logging/index.js';
 
-const logger = pino({
-  level: process.env.LOG_LEVEL || 'info',
-});
+/**
+ * Respond with `error` as `application/problem+json`. Other error handlers
+ * use this too, so every error response has the same shape.
+ */
+export function sendProblem(req: Request, res: Response, error: unknown) {
+  // Errors can be thrown before the request context middleware has run
+  req.id ??= requestId(req);
+
+  const problem = toProblem(error, {
+    instance: req.path,
+    requestId: req.id,
+    stack: config.nodeEnv === 'development',
+  });
+
+  if (error instanceof HttpError) {
+    for (const [name, value] of Object.entries(error.headers)) {
+      res.setHeader(name, value);
+    }
+  }
+
+  res.setHeader('X-Request-Id', req.id);
+  res.setHeader('Content-Type', 'application/problem+json');
+  res.status(problem.status).send(JSON.stringify(problem));
+}
 
 /**
  * Register error handlers
  */
 export function registerErrorHandlers(app: Application<AppMeta>) {
   app.onError(async (err, req, res) => {
-    const level = req.endpointMeta.logging.level;
+    req.id ??= requestId(req);
+    req.log ??= endpointLogger(req.endpointMeta.logging).child({ requestId: req.id });
 
-    if (level === 'debug' || level === 'error') {
-      logger.error({
+    // Errors the client caused are warnings; anything else is ours
+    if (err instanceof HttpError && err.status < 500) {
+      req.log.warn({
+        error: err.message,
+        status: err.status,
+        method: req.method,
+        path: req.path,
+      });
+    } else {
+      req.log.error({
         error: err.message,
         stack: err.stack,
         method: req.method,
@@ -23,10 +55,7 @@ export function registerErrorHandlers(app: Application<AppMeta>) {
     }
 
     if (!res.headersSent) {
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: process.env.NODE_ENV === 'development' ? err.message : undefined,
-      });
+      sendProblem(req, res, err);
     }
   });
 }
@@ -0,0 +1,117 @@
+/**
+ * Health checks
+ *
+ * Readiness (GET /readyz) runs every registered check; liveness (GET /livez)
+ * only shows the process is serving requests, so a failing dependency never
+ * gets the process restarted.
+ */
+
+/**
+ * A dependency check: throws (or rejects) when the dependency is unusable.
+ * It may return a short detail to report, e.g. `'disabled'`.
+ */
+export type HealthCheck = () => Promise<string | void> | string | void;
+
+export interface HealthCheckOptions {
+  /**
+   * Whether a failure makes the service unready. Failing non-critical checks
+   * are reported as `warn`. Defaults to true.
+   */
+  critical?: boolean;
+
+  /**
+   * How long the check may take before it counts as failed (ms)
+   */
+  timeout?: number;
+}
+
+export type HealthStatus = 'pass' | 'warn' | 'fail';
+
+export interface CheckResult {
+  status: HealthStatus;
+  latencyMs: number;
+  detail?: string;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: 'pass' | 'fail';
+  reason?: string;
+  checks: Record<string, CheckResult>;
+}
+
+const DEFAULT_TIMEOUT = 2000;
+
+const checks = new Map<string, { check: HealthCheck; options: HealthCheckOptions }>();
+let shuttingDown = false;
+
+/**
+ * Add a check to readiness
+ *
+ * @returns a function that removes the check again
+ */
+export function registerHealthCheck(
+  name: string,
+  check: HealthCheck,
+  options: HealthCheckOptions = {}
+): () => void {
+  checks.set(name, { check, options });
+  return () => checks.delete(name);
+}
+
+/**
+ * Fail readiness from now on, so load balancers stop sending requests while
+ * the server drains
+ */
+export function markShuttingDown() {
+  shuttingDown = true;
+}
+
+async function runCheck(check: HealthCheck, options: HealthCheckOptions): Promise<CheckResult> {
+  const start = performance.now();
+  const elapsed = () => Math.round(performance.now() - start);
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const detail = await Promise.race([
+      Promise.resolve().then(check),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+      }),
+    ]);
+
+    const result: CheckResult = { status: 'pass', latencyMs: elapsed() };
+    if (detail) result.detail = detail;
+    return result;
+  } catch (error) {
+    return {
+      status: options.critical === false ? 'warn' : 'fail',
+      latencyMs: elapsed(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run every registered check, side by side
+ */
+export async function checkReadiness(): Promise<HealthReport> {
+  const entries = [...checks];
+  const results = await Promise.all(
+    entries.map(([, { check, options }]) => runCheck(check, options))
+  );
+  const report: HealthReport = {
+    status: results.some((result) => result.status === 'fail') ? 'fail' : 'pass',
+    checks: Object.fromEntries(entries.map(([name], index) => [name, results[index]])),
+  };
+
+  if (shuttingDown) {
+    report.status = 'fail';
+    report.reason = 'shutting down';
+  }
+
+  return report;
+}
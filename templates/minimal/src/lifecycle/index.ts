@@ -0,0 +1,139 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { Application } from 'filamentjs';
+import { AppMeta } from '../meta/index.js';
+import { markShuttingDown } from '../health/index.js';
+import { logger } from '../logging/index.js';
+
+/**
+ * Process lifecycle
+ *
+ * On SIGTERM or SIGINT readiness starts failing, and after a delay for load
+ * balancers to notice, the server stops accepting requests, drains the ones in
+ * flight (up to a deadline) and then runs the shutdown hooks components have
+ * registered: closing connections, flushing telemetry, stopping background
+ * jobs. Uncaught exceptions and unhandled rejections take the same path.
+ */
+
+export type ShutdownHook = () => Promise<void> | void;
+
+export interface ShutdownHookOptions {
+  /**
+   * Hooks run from the lowest order to the highest, in registration order
+   * within the same order. Defaults to 0.
+   */
+  order?: number;
+}
+
+export interface LifecycleOptions {
+  /**
+   * How long to wait for in-flight requests before running the hooks anyway
+   * (ms), counted from the start of the shutdown
+   */
+  drainTimeout: number;
+
+  /**
+   * How long to keep accepting requests once readiness fails, so load
+   * balancers stop routing to the server before it closes (ms). Capped at
+   * drainTimeout. Defaults to 0.
+   */
+  drainDelay?: number;
+
+  /**
+   * How long each hook may take (ms). Defaults to 5000.
+   */
+  hookTimeout?: number;
+}
+
+const DEFAULT_HOOK_TIMEOUT = 5000;
+
+const hooks: { name: string; hook: ShutdownHook; order: number }[] = [];
+let shutdown: Promise<void> | undefined;
+
+/**
+ * Run `hook` when the process shuts down, after requests have drained
+ */
+export function onShutdown(name: string, hook: ShutdownHook, options: ShutdownHookOptions = {}) {
+  hooks.push({ name, hook, order: options.order ?? 0 });
+}
+
+// Resolves with whether `work` finished in time
+async function within(ms: number, work: Promise<unknown>): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), ms);
+  });
+
+  try {
+    return await Promise.race([work.then(() => true), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Drain the server and run the shutdown hooks, once
+ *
+ * Exported for tests and for shutting down from code; the handlers installed
+ * by handleShutdown() call it and then exit.
+ */
+export function shutdownGracefully(app: Application<AppMeta>, options: LifecycleOptions) {
+  shutdown ??= (async () => {
+    const { drainTimeout, drainDelay = 0, hookTimeout = DEFAULT_HOOK_TIMEOUT } = options;
+    const deadline = Date.now() + drainTimeout;
+
+    markShuttingDown();
+    await sleep(Math.min(drainDelay, drainTimeout));
+
+    if (!(await within(Math.max(0, deadline - Date.now()), app.close()))) {
+      logger.warn({ drainTimeout }, 'Requests still in flight at the deadline');
+    }
+
+    const ordered = [...hooks].sort((a, b) => a.order - b.order);
+    for (const { name, hook } of ordered) {
+      try {
+        if (!(await within(hookTimeout, Promise.resolve().then(hook)))) {
+          logger.warn({ hook: name }, 'Shutdown hook timed out');
+        }
+      } catch (error) {
+        logger.error({ hook: name, err: error }, 'Shutdown hook failed');
+      }
+    }
+  })();
+
+  return shutdown;
+}
+
+/**
+ * Shut down gracefully on SIGTERM and SIGINT, and on uncaught exceptions and
+ * unhandled rejections (exiting with 1). A second signal exits immediately.
+ */
+export function handleShutdown(app: Application<AppMeta>, options: LifecycleOptions) {
+  const exit = async (exitCode: number) => {
+    await shutdownGracefully(app, options);
+    logger.flush();
+    process.exit(exitCode);
+  };
+
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.on(signal, () => {
+      if (shutdown) {
+        logger.warn({ signal }, 'Received a second signal, exiting now');
+        logger.flush();
+        process.exit(1);
+      }
+
+      logger.info({ signal }, 'Shutting down gracefully');
+      void exit(0);
+    });
+  }
+
+  process.on('uncaughtException', (error) => {
+    logger.fatal({ err: error }, 'Uncaught exception, shutting down');
+    void exit(1);
+  });
+
+  process.on('unhandledRejection', (reason) => {
+    logger.fatal({ err: reason }, 'Unhandled rejection, shutting down');
+    void exit(1);
+  });
+}
@@ -0,0 +1,120 @@
+import { Request } from 'filamentjs';
+import { randomUUID } from 'crypto';
+import pino, { Logger } from 'pino';
+import { config } from '../config/app.js';
+import { AppMeta } from '../meta/index.js';
+
+declare module 'filamentjs' {
+  interface Request {
+    /**
+     * Request ID, echoed in the `X-Request-Id` response header
+     */
+    id: string;
+
+    /**
+     * When the request started (ms since the epoch)
+     */
+    startTime: number;
+
+    /**
+     * Logger bound to this request: every line carries its `requestId`
+     */
+    log: Logger;
+  }
+}
+
+/**
+ * Request fields masked in every log line, whatever the endpoint's
+ * `logging.redact` adds
+ */
+export const REDACT = ['headers.authorization', 'headers.cookie'];
+
+/**
+ * Application logger
+ *
+ * Pretty-printed in development, JSON lines everywhere else. Inside a request
+ * use `req.log` instead, so the lines can be tied back to the request.
+ */
+export const logger = pino({
+  level: config.logLevel,
+  redact: REDACT,
+  ...(config.nodeEnv === 'development' && {
+    transport: {
+      target: 'pino-pretty',
+      options: {
+        colorize: true,
+      },
+    },
+  }),
+});
+
+// Incoming IDs end up in logs and headers: only accept plain tokens
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+const TRACEPARENT_PATTERN = /^[\da-f]{2}-([\da-f]{32})-[\da-f]{16}-[\da-f]{2}$/;
+
+function header(req: Request, name: string) {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * The ID the caller gave the request (`X-Request-Id`, or the trace ID of a
+ * W3C `traceparent`), or a new one
+ */
+export function requestId(req: Request): string {
+  const id = header(req, 'x-request-id');
+  if (id && REQUEST_ID_PATTERN.test(id)) {
+    return id;
+  }
+
+  const traceId = header(req, 'traceparent')?.match(TRACEPARENT_PATTERN)?.[1];
+  if (traceId && !/^0+$/.test(traceId)) {
+    return traceId;
+  }
+
+  return randomUUID();
+}
+
+// `headers.x-api-key` → `headers["x-api-key"]`, as the redaction paths need
+function redactPath(path: string) {
+  return path
+    .split('.')
+    .map((key, index) => {
+      if (index === 0 || key === '*' || /^[A-Za-z_$][\w$]*$/.test(key)) {
+        return index === 0 ? key : `.${key}`;
+      }
+      return `[${JSON.stringify(key)}]`;
+    })
+    .join('');
+}
+
+const endpointLoggers = new WeakMap<Logger, Map<string, Logger>>();
+
+/**
+ * Logger for an endpoint's `logging` metadata
+ *
+ * The endpoint's level is a threshold: nothing less severe is written, and
+ * neither is anything below the base logger's level (`LOG_LEVEL`). Its
+ * `redact` paths are masked on top of `REDACT`. Loggers are cached, so
+ * requests only pay for a `child()` with their own bindings.
+ */
+export function endpointLogger(logging: AppMeta['logging'], base: Logger = logger): Logger {
+  const floor = base.levels.values[base.level];
+  const level = base.levels.values[logging.level] > floor ? logging.level : base.level;
+  const redact = [...REDACT, ...(logging.redact ?? [])].map(redactPath);
+  const key = `${level} ${redact.join(',')}`;
+
+  let cache = endpointLoggers.get(base);
+  if (!cache) {
+    cache = new Map();
+    endpointLoggers.set(base, cache);
+  }
+
+  let endpoint = cache.get(key);
+  if (!endpoint) {
+    endpoint = base.child({}, { level, redact });
+    cache.set(key, endpoint);
+  }
+
+  return endpoint;
+}
@@ -0,0 +1,105 @@
+import { Application, Request } from 'filamentjs';
+import { AppMeta } from '../meta/index.js';
+import { TooManyRequestsError } from '../errors/index.js';
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Result of counting one request against a client's window
+ */
+export interface RateLimitHit {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Storage for per-client request counters
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+export interface RateLimitOptions {
+  store?: RateLimitStore;
+
+  /**
+   * Identifies the client a request is counted against. Defaults to the
+   * remote address.
+   */
+  key?: (req: Request) => string;
+}
+
+/**
+ * Fixed-window counters kept in process memory. Suitable for a single
+ * instance; use a shared store when running several replicas.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitHit>();
+
+  constructor() {
+    // Drop expired windows so idle clients don't accumulate
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, window] of this.windows) {
+        if (window.resetAt <= now) {
+          this.windows.delete(key);
+        }
+      }
+    }, WINDOW_MS).unref();
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    let window = this.windows.get(key);
+
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+
+    window.count++;
+    return { ...window };
+  }
+}
+
+function clientKey(req: Request): string {
+  return req.socket?.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Register rate limiting middleware
+ *
+ * Enforces `rateLimit` (requests per minute) from the endpoint metadata per
+ * client. A client's requests to every rate-limited endpoint count against
+ * the same window, and each endpoint compares that count with its own limit,
+ * so varying path parameters (`/users/1`, `/users/2`, ...) don't give a
+ * client fresh windows. A limit of 0 disables limiting for the endpoint.
+ *
+ * Register it before authentication, so rejected credentials count too.
+ */
+export function registerRateLimit(app: Application<AppMeta>, options: RateLimitOptions = {}) {
+  const store = options.store ?? new MemoryRateLimitStore();
+  const key = options.key ?? clientKey;
+
+  app.use(async (req, res, next) => {
+    const limit = req.endpointMeta.rateLimit;
+
+    if (!limit || limit <= 0) {
+      await next();
+      return;
+    }
+
+    const { count, resetAt } = await store.hit(key(req), WINDOW_MS);
+    const resetSeconds = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+
+    res.setHeader('RateLimit-Limit', String(limit));
+    res.setHeader('RateLimit-Remaining', String(Math.max(0, limit - count)));
+    res.setHeader('RateLimit-Reset', String(resetSeconds));
+
+    if (count > limit) {
+      throw new TooManyRequestsError(`Rate limit of ${limit} requests per minute exceeded`, resetSeconds);
+    }
+
+    await next();
+  });
+}
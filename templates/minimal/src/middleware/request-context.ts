@@ -0,0 +1,24 @@
+import { Application } from 'filamentjs';
+import { AppMeta } from '../meta/index.js';
+import { endpointLogger, requestId } from '../logging/index.js';
+
+/**
+ * Register request context middleware
+ *
+ * Gives each request its ID (`req.id`, the caller's `X-Request-Id` or
+ * `traceparent` trace ID when there is one), start time (`req.startTime`) and
+ * a logger bound to the ID and the endpoint's `logging` metadata (`req.log`),
+ * and echoes the ID in the `X-Request-Id` response header. Register before
+ * middleware that logs.
+ */
+export function registerRequestContext(app: Application<AppMeta>) {
+  app.use(async (req, res, next) => {
+    req.id = requestId(req);
+    req.startTime = Date.now();
+    req.log = endpointLogger(req.endpointMeta.logging).child({ requestId: req.id });
+
+    res.setHeader('X-Request-Id', req.id);
+
+    await next();
+  });
+}
@@ -0,0 +1,48 @@
+import { Application } from 'filamentjs';
+import { AppMeta } from '../meta/index.js';
+import { FieldError, ValidationError } from '../errors/index.js';
+import { RequestSchemas, validate } from '../validation/index.js';
+
+const LOCATIONS: (keyof RequestSchemas)[] = ['params', 'query', 'body'];
+
+/**
+ * Register request validation middleware
+ *
+ * Checks the request's params, query and body against the endpoint's
+ * `validate` schemas before the handler runs. Violations are answered with a
+ * 422 listing each one; valid input is passed on with query strings and path
+ * parameters parsed into the types the schemas declare.
+ */
+export function registerValidation(app: Application<AppMeta>) {
+  app.use(async (req, res, next) => {
+    const schemas = req.endpointMeta.validate;
+
+    if (!schemas) {
+      await next();
+      return;
+    }
+
+    const errors: FieldError[] = [];
+    const input = req as unknown as Record<keyof RequestSchemas, unknown>;
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) {
+        continue;
+      }
+
+      // Body fields are reported by name, the others as e.g. `query.limit`
+      const field = location === 'body' ? '' : location;
+      const checked = validate(schema, input[location] ?? {}, field, location !== 'body');
+
+      input[location] = checked.value;
+      errors.push(...checked.errors.map((error) => ({ ...error, field: error.field || location })));
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(errors);
+    }
+
+    await next();
+  });
+}
@@ -0,0 +1,11 @@
+import { Application } from 'filamentjs';
+import { AppMeta } from '../meta/index.js';
+
+/**
+ * Register resource routes
+ *
+ * Mount your application's resources here, one module per resource.
+ */
+export function registerResourceRoutes(_app: Application<AppMeta>) {
+  // Example: registerUserRoutes(app);
+}
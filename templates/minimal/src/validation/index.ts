@@ -0,0 +1,229 @@
+import { Request } from 'filamentjs';
+import { FieldError } from '../errors/index.js';
+
+/**
+ * Request schemas
+ *
+ * A subset of JSON Schema, so the same schemas that validate requests can be
+ * published in the OpenAPI document. Declare them with `as const` to get
+ * typed input from validated().
+ */
+
+export interface Schema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+
+  // Objects
+  properties?: Record<string, Schema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+
+  // Arrays
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'email' | 'uuid' | 'date-time' | 'uri';
+
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+
+  enum?: readonly (string | number)[];
+}
+
+/**
+ * Schemas for the parts of a request, set as an endpoint's `validate` meta
+ */
+export interface RequestSchemas {
+  body?: Schema;
+  query?: Schema;
+  params?: Schema;
+}
+
+type ObjectOf<P, R> = {
+  [K in keyof P as K extends R ? K : never]: Infer<P[K]>;
+} & {
+  [K in keyof P as K extends R ? never : K]?: Infer<P[K]>;
+};
+
+/**
+ * The type of values that pass `S`
+ */
+export type Infer<S> = S extends { enum: readonly (infer E)[] }
+  ? E
+  : S extends { type: 'string' }
+    ? string
+    : S extends { type: 'number' | 'integer' }
+      ? number
+      : S extends { type: 'boolean' }
+        ? boolean
+        : S extends { type: 'array'; items: infer I }
+          ? Infer<I>[]
+          : S extends { type: 'object'; properties: infer P }
+            ? ObjectOf<P, S extends { required: readonly (infer R)[] } ? R : never>
+            : unknown;
+
+export type ValidatedInput<S extends RequestSchemas> = {
+  [K in keyof S]: Infer<S[K]>;
+};
+
+const FORMATS: Record<NonNullable<Schema['format']>, (value: string) => boolean> = {
+  email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  uuid: (value) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  'date-time': (value) => !Number.isNaN(Date.parse(value)),
+  uri: (value) => URL.canParse(value),
+};
+
+// Query strings and path parameters arrive as strings
+function coerce(schema: Schema, value: unknown): unknown {
+  if (schema.type === 'array') {
+    return Array.isArray(value) ? value : [value];
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+  if ((schema.type === 'number' || schema.type === 'integer') && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isNaN(number) ? value : number;
+  }
+  if (schema.type === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+}
+
+/**
+ * Check `value` against `schema`
+ *
+ * @param field where the value is, for error messages (e.g. `items[2].name`)
+ * @param coerceStrings parse strings into the numbers and booleans the schema
+ * expects, for query strings and path parameters
+ * @returns the value (coerced) and every problem found
+ */
+export function validate(
+  schema: Schema,
+  value: unknown,
+  field = '',
+  coerceStrings = false
+): { value: unknown; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const fail = (message: string) => errors.push({ field, message });
+  const input = coerceStrings ? coerce(schema, value) : value;
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        fail('must be an object');
+        break;
+      }
+
+      const object = input as Record<string, unknown>;
+      const result: Record<string, unknown> = { ...object };
+
+      for (const name of schema.required ?? []) {
+        if (object[name] === undefined) {
+          errors.push({ field: field ? `${field}.${name}` : name, message: 'is required' });
+        }
+      }
+
+      for (const [name, child] of Object.entries(object)) {
+        const path = field ? `${field}.${name}` : name;
+        const property = schema.properties?.[name];
+
+        if (!property) {
+          if (schema.additionalProperties === false) {
+            errors.push({ field: path, message: 'is not allowed' });
+          }
+        } else if (child !== undefined) {
+          const checked = validate(property, child, path, coerceStrings);
+          result[name] = checked.value;
+          errors.push(...checked.errors);
+        }
+      }
+
+      return { value: result, errors };
+    }
+
+    case 'array': {
+      if (!Array.isArray(input)) {
+        fail('must be an array');
+        break;
+      }
+      if (schema.minItems !== undefined && input.length < schema.minItems) {
+        fail(`must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && input.length > schema.maxItems) {
+        fail(`must have at most ${schema.maxItems} items`);
+      }
+
+      const items = input.map((item, index) => {
+        if (!schema.items) {
+          return item;
+        }
+        const checked = validate(schema.items, item, `${field}[${index}]`, coerceStrings);
+        errors.push(...checked.errors);
+        return checked.value;
+      });
+
+      return { value: items, errors };
+    }
+
+    case 'string':
+      if (typeof input !== 'string') {
+        fail('must be a string');
+      } else if (schema.minLength !== undefined && input.length < schema.minLength) {
+        const { minLength } = schema;
+        fail(minLength === 1 ? 'must not be empty' : `must be at least ${minLength} characters`);
+      } else if (schema.maxLength !== undefined && input.length > schema.maxLength) {
+        fail(`must be at most ${schema.maxLength} characters`);
+      } else if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(input)) {
+        fail(`must match ${schema.pattern}`);
+      } else if (schema.format !== undefined && !FORMATS[schema.format](input)) {
+        const { format } = schema;
+        fail(format === 'email' ? 'must be an email address' : `must be a valid ${format}`);
+      }
+      break;
+
+    case 'number':
+    case 'integer':
+      if (typeof input !== 'number' || Number.isNaN(input)) {
+        fail(schema.type === 'integer' ? 'must be an integer' : 'must be a number');
+      } else if (schema.type === 'integer' && !Number.isInteger(input)) {
+        fail('must be an integer');
+      } else if (schema.minimum !== undefined && input < schema.minimum) {
+        fail(`must be at least ${schema.minimum}`);
+      } else if (schema.maximum !== undefined && input > schema.maximum) {
+        fail(`must be at most ${schema.maximum}`);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof input !== 'boolean') {
+        fail('must be a boolean');
+      }
+      break;
+  }
+
+  if (errors.length === 0 && schema.enum && !schema.enum.includes(input as string | number)) {
+    fail(`must be one of ${schema.enum.join(', ')}`);
+  }
+
+  return { value: input, errors };
+}
+
+/**
+ * The request's input, typed by the schemas the validation middleware has
+ * already checked it against
+ *
+ * ```ts
+ * const { body } = validated(req, createUser);
+ * ```
+ */
+export function validated<S extends RequestSchemas>(req: Request, _schemas: S): ValidatedInput<S> {
+  return { body: req.body, query: req.query, params: req.params } as ValidatedInput<S>;
+}
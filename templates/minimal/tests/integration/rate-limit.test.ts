@@ -0,0 +1,73 @@
+import { suite, before, after } from 'node:test';
+import { TestBattery } from 'test-battery';
+import { Application, createApp } from 'filamentjs';
+import { AppMeta } from '../../src/meta/index.js';
+import { defaultMeta, PUBLIC } from '../../src/meta/defaults.js';
+import { MemoryRateLimitStore, registerRateLimit } from '../../src/middleware/rate-limit.js';
+import { registerErrorHandlers } from '../../src/handlers/errors.js';
+
+const PORT = 3102;
+const BASE_URL = `http://localhost:${PORT}`;
+
+suite('Rate limiting middleware', () => {
+  let app: Application<AppMeta>;
+
+  before(async () => {
+    app = createApp(defaultMeta);
+    registerRateLimit(app, {
+      store: new MemoryRateLimitStore(),
+      key: (req) => String(req.headers['x-client'] ?? 'default'),
+    });
+
+    app.get('/limited', { ...PUBLIC, rateLimit: 2 }, async (req, res) => {
+      res.json({ ok: true });
+    });
+    app.get('/items/:id', { ...PUBLIC, rateLimit: 2 }, async (req, res) => {
+      res.json({ id: req.params.id });
+    });
+    app.get('/unlimited', { ...PUBLIC, rateLimit: 0 }, async (req, res) => {
+      res.json({ ok: true });
+    });
+    registerErrorHandlers(app);
+
+    await new Promise<void>((resolve) => app.listen(PORT, resolve));
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  TestBattery.test('requests within the limit pass with headers', async (battery) => {
+    const res = await fetch(`${BASE_URL}/limited`);
+    battery.test('status is 200').value(res.status).value(200).equal;
+    battery.test('limit header').value(res.headers.get('ratelimit-limit')).value('2').equal;
+    battery.test('remaining header').value(res.headers.get('ratelimit-remaining')).value('1').equal;
+  });
+
+  TestBattery.test('requests over the limit get 429 with Retry-After', async (battery) => {
+    await fetch(`${BASE_URL}/limited`);
+    const res = await fetch(`${BASE_URL}/limited`);
+    const retryAfter = Number(res.headers.get('retry-after'));
+    battery.test('status is 429').value(res.status).value(429).equal;
+    battery.test('remaining is 0').value(res.headers.get('ratelimit-remaining')).value('0').equal;
+    battery.test('Retry-After is within the window')
+      .value(retryAfter > 0 && retryAfter <= 60).value(true).equal;
+  });
+
+  TestBattery.test('different paths share the client\'s window', async (battery) => {
+    const headers = { 'x-client': 'crawler' };
+    await fetch(`${BASE_URL}/items/1`, { headers });
+    await fetch(`${BASE_URL}/items/2`, { headers });
+    const res = await fetch(`${BASE_URL}/items/3`, { headers });
+    battery.test('status is 429').value(res.status).value(429).equal;
+  });
+
+  TestBattery.test('a limit of 0 disables limiting', async (battery) => {
+    for (let i = 0; i < 5; i++) {
+      await fetch(`${BASE_URL}/unlimited`);
+    }
+    const res = await fetch(`${BASE_URL}/unlimited`);
+    battery.test('status is 200').value(res.status).value(200).equal;
+    battery.test('no limit header').value(res.headers.get('ratelimit-limit')).value(null).equal;
+  });
+});
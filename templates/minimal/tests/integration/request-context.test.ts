@@ -0,0 +1,67 @@
+import { suite, before, after } from 'node:test';
+import { TestBattery } from 'test-battery';
+import { Application, createApp } from 'filamentjs';
+import { AppMeta } from '../../src/meta/index.js';
+import { defaultMeta, PUBLIC } from '../../src/meta/defaults.js';
+import { registerRequestContext } from '../../src/middleware/request-context.js';
+import { registerErrorHandlers } from '../../src/handlers/errors.js';
+import { NotFoundError } from '../../src/errors/index.js';
+
+const PORT = 3105;
+const BASE_URL = `http://localhost:${PORT}`;
+
+suite('Request context middleware', () => {
+  let app: Application<AppMeta>;
+
+  before(async () => {
+    app = createApp(defaultMeta);
+    registerRequestContext(app);
+
+    app.get('/context', PUBLIC, async (req, res) => {
+      res.json({ id: req.id, elapsed: Date.now() - req.startTime, logs: typeof req.log.info });
+    });
+    app.get('/missing', PUBLIC, async () => {
+      throw new NotFoundError();
+    });
+    registerErrorHandlers(app);
+
+    await new Promise<void>((resolve) => app.listen(PORT, resolve));
+  });
+
+  after(async () => {
+    await app.close();
+  });
+
+  TestBattery.test('requests get an ID, start time and logger', async (battery) => {
+    const res = await fetch(`${BASE_URL}/context`);
+    const body = await res.json();
+
+    battery.test('ID is a UUID').value(/^[0-9a-f-]{36}$/.test(body.id)).value(true).equal;
+    battery.test('ID echoed').value(res.headers.get('x-request-id')).value(body.id).equal;
+    battery.test('start time recorded').value(body.elapsed >= 0).value(true).equal;
+    battery.test('logger bound').value(body.logs).value('function').equal;
+  });
+
+  TestBattery.test('incoming IDs are honoured', async (battery) => {
+    const given = await fetch(`${BASE_URL}/context`, { headers: { 'x-request-id': 'req-123' } });
+    const traced = await fetch(`${BASE_URL}/context`, {
+      headers: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' },
+    });
+    const unsafe = await fetch(`${BASE_URL}/context`, { headers: { 'x-request-id': 'a b' } });
+
+    battery.test('X-Request-Id').value(given.headers.get('x-request-id')).value('req-123').equal;
+    battery.test('traceparent trace ID')
+      .value(traced.headers.get('x-request-id')).value('4bf92f3577b34da6a3ce929d0e0e4736').equal;
+    battery.test('unsafe IDs replaced')
+      .value(unsafe.headers.get('x-request-id') === 'a b').value(false).equal;
+  });
+
+  TestBattery.test('error responses carry the ID', async (battery) => {
+    const res = await fetch(`${BASE_URL}/missing`, { headers: { 'x-request-id': 'req-456' } });
+    const problem = await res.json();
+
+    battery.test('status is 404').value(res.status).value(404).equal;
+    battery.test('in the body').value(problem.requestId).value('req-456').equal;
+    battery.test('in the header').value(res.headers.get('x-request-id')).value('req-456').equal;
+  });
+});
@@ -0,0 +1,52 @@
+import { suite } from 'node:test';
+import { TestBattery } from 'test-battery';
+import { checkReadiness, markShuttingDown, registerHealthCheck } from '../../src/health/index.js';
+
+suite('Health checks', () => {
+  TestBattery.test('passing checks report their status and latency', async (battery) => {
+    const remove = registerHealthCheck('database', async () => 'primary');
+    const report = await checkReadiness();
+    remove();
+
+    battery.test('ready').value(report.status).value('pass').equal;
+    battery.test('check passed').value(report.checks.database.status).value('pass').equal;
+    battery.test('detail').value(report.checks.database.detail).value('primary').equal;
+    battery.test('latency measured').value(report.checks.database.latencyMs >= 0).value(true).equal;
+  });
+
+  TestBattery.test('a failing critical check fails readiness', async (battery) => {
+    const remove = registerHealthCheck('queue', () => {
+      throw new Error('connection refused');
+    });
+    const report = await checkReadiness();
+    remove();
+
+    battery.test('not ready').value(report.status).value('fail').equal;
+    battery.test('check failed').value(report.checks.queue.status).value('fail').equal;
+    battery.test('error reported').value(report.checks.queue.error).value('connection refused').equal;
+  });
+
+  TestBattery.test('non-critical failures and timeouts', async (battery) => {
+    const removeCache = registerHealthCheck('cache', () => Promise.reject(new Error('down')), {
+      critical: false,
+    });
+    const removeSlow = registerHealthCheck('slow', () => new Promise(() => {}), { timeout: 20 });
+    const report = await checkReadiness();
+    removeCache();
+    removeSlow();
+
+    battery.test('non-critical is a warning').value(report.checks.cache.status).value('warn').equal;
+    battery.test('timeout fails').value(report.checks.slow.error).value('Timed out after 20ms').equal;
+    battery.test('not ready').value(report.status).value('fail').equal;
+  });
+
+  TestBattery.test('readiness fails once shutting down', async (battery) => {
+    const before = await checkReadiness();
+    markShuttingDown();
+    const after = await checkReadiness();
+
+    battery.test('ready before').value(before.status).value('pass').equal;
+    battery.test('not ready after').value(after.status).value('fail').equal;
+    battery.test('reason').value(after.reason).value('shutting down').equal;
+  });
+});
@@ -0,0 +1,44 @@
+import { suite } from 'node:test';
+import { TestBattery } from 'test-battery';
+import { Application } from 'filamentjs';
+import { AppMeta } from '../../src/meta/index.js';
+import { checkReadiness } from '../../src/health/index.js';
+import { onShutdown, shutdownGracefully } from '../../src/lifecycle/index.js';
+
+suite('Graceful shutdown', () => {
+  TestBattery.test('waits, drains, then runs the hooks in order', async (battery) => {
+    const calls: string[] = [];
+    const started = Date.now();
+    let ready = '';
+    let closedAfter = 0;
+
+    // A request that never finishes: the drain deadline has to end it
+    const app = {
+      close: async () => {
+        closedAfter = Date.now() - started;
+        ready = (await checkReadiness()).status;
+        calls.push('close');
+        await new Promise(() => {});
+      },
+    } as unknown as Application<AppMeta>;
+
+    onShutdown('tracing', () => void calls.push('tracing'), { order: 100 });
+    onShutdown('redis', async () => void calls.push('redis'));
+    onShutdown('jobs', () => {
+      calls.push('jobs');
+      throw new Error('already stopped');
+    });
+    onShutdown('stuck', () => new Promise(() => {}));
+
+    const options = { drainTimeout: 40, drainDelay: 15, hookTimeout: 20 };
+    const first = shutdownGracefully(app, options);
+    const second = shutdownGracefully(app, options);
+    await first;
+
+    battery.test('closed after the delay').value(closedAfter >= 10).value(true).equal;
+    battery.test('not ready while draining').value(ready).value('fail').equal;
+    battery.test('hooks run in order despite failures and timeouts')
+      .value(calls.join(', ')).value('close, redis, jobs, tracing').equal;
+    battery.test('only shuts down once').value(first === second).value(true).equal;
+  });
+});
@@ -0,0 +1,63 @@
+import { suite, beforeEach } from 'node:test';
+import { TestBattery } from 'test-battery';
+import pino from 'pino';
+import { endpointLogger } from '../../src/logging/index.js';
+
+suite('Endpoint loggers', () => {
+  let lines: Record<string, unknown>[];
+  const destination = { write: (line: string) => lines.push(JSON.parse(line)) };
+  const base = pino({ level: 'debug' }, destination);
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  function logged() {
+    return lines.map((line) => pino.levels.labels[line.level as number]).join(', ');
+  }
+
+  TestBattery.test('the endpoint level is a threshold', (battery) => {
+    for (const level of ['debug', 'info', 'warn', 'error'] as const) {
+      const log = endpointLogger({ level }, base);
+      log.debug('debug');
+      log.info('info');
+      log.warn('warn');
+      log.error('error');
+    }
+
+    battery.test('each endpoint logs its level and above').value(logged()).value([
+      'debug, info, warn, error',
+      'info, warn, error',
+      'warn, error',
+      'error',
+    ].join(', ')).equal;
+  });
+
+  TestBattery.test('LOG_LEVEL still applies', (battery) => {
+    const quiet = pino({ level: 'warn' }, destination);
+    const log = endpointLogger({ level: 'debug' }, quiet);
+    log.info('info');
+    log.warn('warn');
+
+    battery.test('nothing below the base level').value(logged()).value('warn').equal;
+  });
+
+  TestBattery.test('redacted fields are masked', (battery) => {
+    const request = {
+      headers: { authorization: 'Bearer token', 'x-api-key': 'key', accept: 'application/json' },
+      body: { name: 'Ada', password: 'hunter2' },
+    };
+
+    const redact = ['body.password', 'headers.x-api-key'];
+    endpointLogger({ level: 'info', redact }, base).info(request);
+    endpointLogger({ level: 'info' }, base).info(request);
+
+    const [redacted, plain] = lines as unknown as (typeof request)[];
+    battery.test('listed body field').value(redacted.body.password).value('[Redacted]').equal;
+    battery.test('listed header').value(redacted.headers['x-api-key']).value('[Redacted]').equal;
+    battery.test('other fields kept').value(redacted.body.name).value('Ada').equal;
+    battery.test('authorization always masked')
+      .value(plain.headers.authorization).value('[Redacted]').equal;
+    battery.test('only masked where listed').value(plain.body.password).value('hunter2').equal;
+  });
+});
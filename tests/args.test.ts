@@ -0,0 +1,199 @@
+import { suite, before, after } from 'node:test';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { TestBattery } from 'test-battery';
+import { parseArgs, parseAddArgs, parseGenerateArgs, parseUpgradeArgs } from '../src/args.js';
+
+const CLI = resolve('src/index.ts');
+
+function errorOf(parse: () => unknown) {
+  try {
+    parse();
+  } catch (error) {
+    return (error as Error).message;
+  }
+  return '';
+}
+
+suite('Command-line arguments', () => {
+  let root: string;
+
+  // Runs a dry run away from this checkout and any presets of the user's
+  const dryRun = (...args: string[]) => execFileSync(
+    process.execPath,
+    ['--import', import.meta.resolve('tsx'), CLI, ...args, '--dry-run'],
+    { cwd: root, env: { ...process.env, XDG_CONFIG_HOME: join(root, 'config') }, encoding: 'utf8' }
+  );
+
+  before(() => {
+    root = mkdtempSync(join(tmpdir(), 'create-filament-args-'));
+  });
+
+  after(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  TestBattery.test('value options take either form', (battery) => {
+    const spaced = parseArgs(['app', '--template', 'api', '--pm', 'pnpm', '--ci', 'gitlab', '--var', 'team=payments', '--preset', 'acme']);
+    const joined = parseArgs(['app', '--template=api', '--pm=pnpm', '--ci=gitlab', '--var=team=payments', '--preset=acme']);
+
+    for (const [form, options] of [['--flag value', spaced], ['--flag=value', joined]] as const) {
+      battery.test(`${form}: name`).value(options.name).value('app').equal;
+      battery.test(`${form}: template`).value(options.template).value('api').equal;
+      battery.test(`${form}: package manager`).value(options.packageManager).value('pnpm').equal;
+      battery.test(`${form}: CI provider`).value(options.features.ci).value('gitlab').equal;
+      battery.test(`${form}: template variable`).value(options.vars.team).value('payments').equal;
+      battery.test(`${form}: preset`).value(options.preset).value('acme').equal;
+    }
+
+    battery.test('boolean variables')
+      .value(JSON.stringify(parseArgs(['--var', 'metrics=true', '--var', 'tracing=false']).vars))
+      .value('{"metrics":true,"tracing":false}').equal;
+    battery.test('value starting with a dash is not taken')
+      .value(errorOf(() => parseArgs(['--template', '--yes']))).value('Option --template requires a value (minimal, api, full, a path or a URL)').equal;
+  });
+
+  TestBattery.test('feature and boolean flags', (battery) => {
+    const options = parseArgs(['--auth', '--no-docker', '--observability', '--no-git', '--no-install', '--keep-on-failure']);
+
+    battery.test('enabled feature').value(options.features.auth).value(true).equal;
+    battery.test('disabled feature').value(options.features.docker).value(false).equal;
+    battery.test('hyphenated feature').value(parseArgs(['--docker-compose']).features.dockerCompose).value(true).equal;
+    battery.test('features not given are left to ask').value(options.features.openapi).value(undefined).equal;
+    battery.test('git').value(options.git).value(false).equal;
+    battery.test('install').value(options.install).value(false).equal;
+    battery.test('keep on failure').value(options.keepOnFailure).value(true).equal;
+    battery.test('repeated flag').value(parseArgs(['--auth', '--auth']).features.auth).value(true).equal;
+  });
+
+  TestBattery.test('unknown and malformed options are rejected', (battery) => {
+    battery.test('unknown option').value(errorOf(() => parseArgs(['--frobnicate']))).value('Unknown option --frobnicate').equal;
+    battery.test('unknown short option').value(errorOf(() => parseArgs(['-x']))).value('Unknown option -x').equal;
+    battery.test('flag given a value').value(errorOf(() => parseArgs(['--auth=yes']))).value('Option --auth does not take a value').equal;
+    battery.test('invalid choice')
+      .value(errorOf(() => parseArgs(['--pm=pip']))).value('Invalid value "pip" for --pm. Expected one of: npm, pnpm, yarn, bun').equal;
+    battery.test('missing choice')
+      .value(errorOf(() => parseArgs(['--ci']))).value('Option --ci requires a value (github, gitlab, none)').equal;
+    battery.test('malformed variable').value(errorOf(() => parseArgs(['--var', 'team']))).value('Option --var expects <name>=<value>').equal;
+    battery.test('invalid preset name')
+      .value(errorOf(() => parseArgs(['--save-preset', 'a/b'])))
+      .value('Option --save-preset requires a preset name (letters, numbers, hyphens, and underscores)').equal;
+    battery.test('invalid project name')
+      .value(errorOf(() => parseArgs(['My App'])))
+      .value('Invalid project name "My App". Use only lowercase letters, numbers, hyphens, and underscores').equal;
+    battery.test('second project name')
+      .value(errorOf(() => parseArgs(['app', 'other'])))
+      .value('Unexpected argument "other" (project name is already "app")').equal;
+  });
+
+  TestBattery.test('conflicting options are rejected', (battery) => {
+    battery.test('feature and its negation')
+      .value(errorOf(() => parseArgs(['--auth', '--no-auth']))).value('Conflicting options --auth and --no-auth').equal;
+    battery.test('boolean and its negation')
+      .value(errorOf(() => parseArgs(['--no-install', '--install']))).value('Conflicting options --no-install and --install').equal;
+    battery.test('two values')
+      .value(errorOf(() => parseArgs(['--pm=npm', '--pm', 'yarn']))).value('Conflicting options --pm=npm and --pm=yarn').equal;
+    battery.test('two values for a variable')
+      .value(errorOf(() => parseArgs(['--var', 'team=a', '--var=team=b']))).value('Conflicting options --var team=a and --var team=b').equal;
+    battery.test('commit without git')
+      .value(errorOf(() => parseArgs(['--no-git', '--git-commit']))).value('--git-commit cannot be used with --no-git').equal;
+    battery.test('compose without docker')
+      .value(errorOf(() => parseArgs(['--docker-compose', '--no-docker'])))
+      .value('--docker-compose builds the app image and cannot be used with --no-docker').equal;
+    battery.test('contents without a dry run')
+      .value(errorOf(() => parseArgs(['--show-contents']))).value('--show-contents can only be used with --dry-run').equal;
+  });
+
+  TestBattery.test('--yes leaves the answers to the defaults', (battery) => {
+    for (const flag of ['-y', '--yes']) {
+      const options = parseArgs([flag]);
+      battery.test(`${flag} set`).value(options.yes).value(true).equal;
+      battery.test(`${flag} decides nothing itself`)
+        .value(JSON.stringify([options.name, options.template, options.packageManager, options.git, options.install]))
+        .value('[null,null,null,null,null]').equal;
+    }
+  });
+
+  TestBattery.test('defaults --yes applies', (battery) => {
+    const plan = dryRun('--yes');
+
+    battery.test('minimal template, without auth').value(plan.includes('src/middleware/auth.ts')).value(false).equal;
+    battery.test('with the template\'s Dockerfile').value(plan.includes('  Dockerfile ')).value(true).equal;
+    battery.test('installed with npm').value(plan.includes('npm install')).value(true).equal;
+    battery.test('git repository').value(plan.includes('git init')).value(true).equal;
+    battery.test('initial commit').value(plan.includes('git commit')).value(true).equal;
+
+    const chosen = dryRun('--yes', '--pm=pnpm', '--no-git', '--auth');
+
+    battery.test('flags still win: package manager').value(chosen.includes('pnpm install')).value(true).equal;
+    battery.test('flags still win: git').value(chosen.includes('git init')).value(false).equal;
+    battery.test('flags still win: feature').value(chosen.includes('src/middleware/auth.ts')).value(true).equal;
+  });
+
+  TestBattery.test('add', (battery) => {
+    const options = parseAddArgs(['docker-compose', 'auth', '--no-install', '--skip-edited']);
+
+    battery.test('features').value(JSON.stringify(options.features)).value('{"docker":true,"dockerCompose":true,"auth":true}').equal;
+    battery.test('install').value(options.install).value(false).equal;
+    battery.test('skip edited').value(options.skipEdited).value(true).equal;
+    battery.test('defaults')
+      .value(JSON.stringify(parseAddArgs(['openapi'])))
+      .value('{"features":{"openapi":true},"install":true,"skipEdited":false,"dryRun":false,"showContents":false,"help":false}').equal;
+    battery.test('help needs no feature').value(parseAddArgs(['--help']).help).value(true).equal;
+
+    battery.test('no feature').value(errorOf(() => parseAddArgs([]))).value('Name at least one feature to add').equal;
+    battery.test('unknown feature')
+      .value(errorOf(() => parseAddArgs(['kafka'])))
+      .value('Unknown feature "kafka". Expected one of: docker, docker-compose, github-actions, gitlab-ci, openapi, auth, observability').equal;
+    battery.test('unknown option').value(errorOf(() => parseAddArgs(['auth', '--yes']))).value('Unknown option --yes').equal;
+    battery.test('two CI providers')
+      .value(errorOf(() => parseAddArgs(['github-actions', 'gitlab-ci']))).value('Only one CI provider can be added').equal;
+    battery.test('contents without a dry run')
+      .value(errorOf(() => parseAddArgs(['auth', '--show-contents']))).value('--show-contents can only be used with --dry-run').equal;
+  });
+
+  TestBattery.test('generate', (battery) => {
+    const route = parseGenerateArgs(['route', 'order-items', '--no-test']);
+    const handler = parseGenerateArgs(['handler', 'error', 'not-found', '--dry-run']);
+
+    battery.test('route').value(`${route.kind} ${route.name}`).value('route order-items').equal;
+    battery.test('without test').value(route.test).value(false).equal;
+    battery.test('handler').value(`${handler.kind} ${handler.name}`).value('error not-found').equal;
+    battery.test('with test by default').value(handler.test).value(true).equal;
+    battery.test('help needs no module').value(parseGenerateArgs(['-h']).help).value(true).equal;
+
+    battery.test('nothing to generate')
+      .value(errorOf(() => parseGenerateArgs([]))).value('Name what to generate: route, middleware or handler').equal;
+    battery.test('unknown kind').value(errorOf(() => parseGenerateArgs(['model', 'user']))).value('Cannot generate "model"').equal;
+    battery.test('handler without a kind')
+      .value(errorOf(() => parseGenerateArgs(['handler', 'audit'])))
+      .value('Name the kind of handler to generate: error, transform, finalize').equal;
+    battery.test('no name').value(errorOf(() => parseGenerateArgs(['middleware']))).value('Name the middleware to generate').equal;
+    battery.test('two names').value(errorOf(() => parseGenerateArgs(['route', 'a', 'b']))).value('Unexpected argument "b"').equal;
+    battery.test('invalid name')
+      .value(errorOf(() => parseGenerateArgs(['route', 'OrderItems'])))
+      .value('Invalid name "OrderItems". Use lowercase letters and numbers, with words separated by hyphens').equal;
+    battery.test('unknown option').value(errorOf(() => parseGenerateArgs(['route', 'a', '--force']))).value('Unknown option --force').equal;
+  });
+
+  TestBattery.test('upgrade', (battery) => {
+    const spaced = parseUpgradeArgs(['--from', '1.2.0', '--template', 'api', '--write-conflicts']);
+    const joined = parseUpgradeArgs(['--from=1.2.0', '--template=api', '--no-install']);
+
+    battery.test('--flag value').value(`${spaced.from} ${spaced.template}`).value('1.2.0 api').equal;
+    battery.test('--flag=value').value(`${joined.from} ${joined.template}`).value('1.2.0 api').equal;
+    battery.test('write conflicts').value(spaced.writeConflicts).value(true).equal;
+    battery.test('install').value(joined.install).value(false).equal;
+    battery.test('defaults')
+      .value(JSON.stringify(parseUpgradeArgs([])))
+      .value('{"writeConflicts":false,"install":true,"dryRun":false,"showContents":false,"help":false}').equal;
+
+    battery.test('missing value').value(errorOf(() => parseUpgradeArgs(['--from']))).value('Option --from requires a value').equal;
+    battery.test('unknown option').value(errorOf(() => parseUpgradeArgs(['--force']))).value('Unknown option --force').equal;
+    battery.test('positional argument').value(errorOf(() => parseUpgradeArgs(['api']))).value('Unexpected argument "api"').equal;
+    battery.test('contents without a dry run')
+      .value(errorOf(() => parseUpgradeArgs(['--show-contents']))).value('--show-contents can only be used with --dry-run').equal;
+  });
+});
@@ -0,0 +1,163 @@
+import { suite } from 'node:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { TestBattery } from 'test-battery';
+import { ModuleKind, ProjectConfig } from '../src/types.js';
+import { builtinTemplate, loadManifest } from '../src/templates.js';
+import { memoryOutput } from '../src/output.js';
+import { generateProject } from '../src/generators/index.js';
+import { addImport, addToFunction, useParameter } from '../src/codemods.js';
+import { nextTestPort, planModule } from '../src/commands/generate.js';
+
+const PROJECT_PATH = resolve('/virtual/codemod-app');
+
+const REGISTRY = `import { Application } from 'filamentjs';
+import { registerA } from './a.js';
+
+export function registerThings(app: Application) {
+  app.get('/', {}, async (req, res) => {
+    res.send(\`{ \${'}'} }\`); // }
+  });
+
+  registerA(app);
+
+  // Add more things here
+}
+
+function other() {
+  /* { */
+}
+`;
+
+suite('Source code edits', () => {
+  TestBattery.test('imports go after the last import, once', (battery) => {
+    const edited = addImport(REGISTRY, "import { registerB } from './b.js';");
+
+    battery.test('added after the last import')
+      .value(edited.split('\n')[2]).value("import { registerB } from './b.js';").equal;
+    battery.test('existing import not repeated')
+      .value(addImport(edited, "import { registerB } from './b.js';")).value(edited).equal;
+  });
+
+  TestBattery.test('statements go at the end, before "Add more" comments', (battery) => {
+    const edited = addToFunction(REGISTRY, 'registerThings', ['// B', 'registerB(app);']);
+
+    battery.test('braces in strings and comments are skipped')
+      .value(edited?.includes('  registerA(app);\n\n  // B\n  registerB(app);\n\n  // Add more things here\n}'))
+      .value(true).equal;
+    battery.test('other functions are untouched')
+      .value(edited?.endsWith('function other() {\n  /* { */\n}\n')).value(true).equal;
+  });
+
+  TestBattery.test('statements can go at the start, or into an empty body', (battery) => {
+    const start = addToFunction(REGISTRY, 'registerThings', ['first(app);'], 'start');
+    const empty = addToFunction('function other() {\n}\n', 'other', ['first();']);
+
+    battery.test('at the start').value(start?.includes('Application) {\n  first(app);\n\n  app.get')).value(true).equal;
+    battery.test('empty body').value(empty).value('function other() {\n  first();\n}\n').equal;
+  });
+
+  TestBattery.test('missing functions are reported', (battery) => {
+    battery.test('unknown function').value(addToFunction(REGISTRY, 'registerNothing', ['x();'])).value(undefined).equal;
+    battery.test('arrow function')
+      .value(addToFunction('export const registerThings = () => {\n};\n', 'registerThings', ['x();'])).value(undefined).equal;
+  });
+
+  TestBattery.test('unused parameters are renamed before they are used', (battery) => {
+    const unused = 'function registerThings(_app: Application, _apps = 1) {\n  // _app\n}\n';
+
+    battery.test('marked parameter renamed')
+      .value(useParameter(unused, 'registerThings', 'app'))
+      .value('function registerThings(app: Application, _apps = 1) {\n  // _app\n}\n').equal;
+    battery.test('used parameter left alone').value(useParameter(REGISTRY, 'registerThings', 'app')).value(REGISTRY).equal;
+    battery.test('unknown function').value(useParameter(REGISTRY, 'registerNothing', 'app')).value(REGISTRY).equal;
+  });
+});
+
+suite('Generated modules', () => {
+  const config: ProjectConfig = {
+    name: 'codemod-app',
+    template: 'minimal',
+    features: { ...loadManifest('minimal').features, auth: true },
+    packageManager: 'npm',
+    git: false,
+    gitCommit: false,
+    install: false,
+    vars: {}
+  };
+
+  const project = memoryOutput();
+  generateProject(PROJECT_PATH, config, builtinTemplate('minimal'), project);
+
+  const registries: Record<ModuleKind, string> = {
+    route: 'src/routes/resources.ts',
+    middleware: 'src/middleware/index.ts',
+    error: 'src/handlers/errors.ts',
+    transform: 'src/handlers/transforms.ts',
+    finalize: 'src/handlers/finalizers.ts'
+  };
+
+  for (const [kind, registry] of Object.entries(registries) as [ModuleKind, string][]) {
+    TestBattery.test(`${kind} modules are registered in ${registry}`, (battery) => {
+      const plan = planModule(PROJECT_PATH, config, { kind, name: 'order-items', test: true, port: 3105 }, project);
+      const updated = plan.files.find((file) => file.action === 'update')?.content ?? '';
+
+      battery.test('module, test and registry written')
+        .value(plan.files.length).value(3).equal;
+      battery.test('module imported')
+        .value(updated.includes("from './order-items.js';")).value(true).equal;
+      battery.test('no leftover placeholders')
+        .value(plan.files.some((file) => file.content.includes('{{'))).value(false).equal;
+      battery.test('nothing to do by hand').value(plan.manual).value(undefined).equal;
+    });
+  }
+
+  TestBattery.test('routes are mounted with the resources', (battery) => {
+    const plan = planModule(PROJECT_PATH, config, { kind: 'route', name: 'order-items', test: false, port: 3105 }, project);
+    const registry = plan.files.find((file) => file.action === 'update')!;
+
+    battery.test('registered in registerResourceRoutes')
+      .value(registry.path).value(resolve(PROJECT_PATH, 'src/routes/resources.ts')).equal;
+    battery.test('app parameter no longer marked unused')
+      .value(registry.content.includes('export function registerResourceRoutes(app: Application<AppMeta>) {')).value(true).equal;
+    battery.test('route registered')
+      .value(registry.content.includes('  registerOrderItemsRoutes(app);\n}')).value(true).equal;
+  });
+
+  TestBattery.test('transformers set the header their test checks', (battery) => {
+    const plan = planModule(PROJECT_PATH, config, { kind: 'transform', name: 'order-items', test: true, port: 3105 }, project);
+    const [module, test] = plan.files.map((file) => file.content);
+
+    battery.test('module sets the header')
+      .value(module.includes("res.setHeader('X-order-items', 'true');")).value(true).equal;
+    battery.test('test reads the same header')
+      .value(test.includes("headers.get('x-order-items')")).value(true).equal;
+  });
+
+  TestBattery.test('generated tests start above the ports the templates use', (battery) => {
+    const full = memoryOutput();
+    generateProject(PROJECT_PATH, { ...config, template: 'full' }, builtinTemplate('full'), full);
+    const shipped = [...full.files.values()]
+      .flatMap((file) => [...file.content.toString().matchAll(/const PORT = (\d+);/g)])
+      .map((match) => Number(match[1]));
+
+    const empty = mkdtempSync(join(tmpdir(), 'create-filament-ports-'));
+    try {
+      battery.test('templates ship integration tests').value(shipped.length > 0).value(true).equal;
+      battery.test('first port is free').value(nextTestPort(empty) > Math.max(...shipped)).value(true).equal;
+    } finally {
+      rmSync(empty, { recursive: true, force: true });
+    }
+  });
+
+  TestBattery.test('existing modules are not overwritten', (battery) => {
+    let message = '';
+    try {
+      planModule(PROJECT_PATH, config, { kind: 'route', name: 'resources', test: false, port: 3105 }, project);
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    battery.test('refused').value(message).value('src/routes/resources.ts already exists').equal;
+  });
+});
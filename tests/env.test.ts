@@ -0,0 +1,79 @@
+import { suite } from 'node:test';
+import { TestBattery } from 'test-battery';
+import { ProjectConfig } from '../src/types.js';
+import { loadManifest } from '../src/templates.js';
+import { envSchema, renderEnvExample } from '../src/env.js';
+import { EnvError, loadEnv } from '../templates/minimal/src/config/env.js';
+
+const SCHEMA = {
+  PORT: { type: 'number', description: 'Port', default: '3000' },
+  NODE_ENV: { type: 'string', description: 'Environment', default: 'development', choices: ['development', 'production'] },
+  DEBUG: { type: 'boolean', description: 'Debug output', default: 'false' },
+  API_URL: { type: 'url', description: 'Upstream API', required: true },
+  SECRET: { type: 'string', description: 'Signing key', default: 'change-me', secret: true },
+  OPTIONAL: { type: 'string', description: 'Optional' }
+} as const;
+
+function problemsOf(env: Record<string, string>) {
+  try {
+    loadEnv(SCHEMA, env);
+    return '';
+  } catch (error) {
+    return (error as EnvError).problems.join('\n');
+  }
+}
+
+suite('Environment configuration', () => {
+  TestBattery.test('variables are parsed to their types', (battery) => {
+    const env = loadEnv(SCHEMA, { API_URL: 'https://api.example.com', DEBUG: 'true', PORT: '8080' });
+
+    battery.test('number').value(env.PORT).value(8080).equal;
+    battery.test('boolean').value(env.DEBUG).value(true).equal;
+    battery.test('default').value(env.NODE_ENV).value('development').equal;
+    battery.test('unset optional').value(env.OPTIONAL).value(undefined).equal;
+  });
+
+  TestBattery.test('every problem is reported at once', (battery) => {
+    battery.test('missing and invalid variables listed')
+      .value(problemsOf({ PORT: 'eighty', NODE_ENV: 'staging', API_URL: '' }))
+      .value([
+        'PORT must be a number (got "eighty")',
+        'NODE_ENV must be one of development, production (got "staging")',
+        'API_URL is required (Upstream API)'
+      ].join('\n')).equal;
+    battery.test('invalid URL')
+      .value(problemsOf({ API_URL: 'not a url' })).value('API_URL must be a URL (got "not a url")').equal;
+  });
+
+  TestBattery.test('secrets must be set in production', (battery) => {
+    const production = { NODE_ENV: 'production', API_URL: 'https://api.example.com' };
+
+    battery.test('default refused')
+      .value(problemsOf({ ...production, SECRET: 'change-me' }))
+      .value('SECRET must be set to a real secret in production (Signing key)').equal;
+    battery.test('unset refused')
+      .value(problemsOf(production))
+      .value('SECRET must be set to a real secret in production (Signing key)').equal;
+    battery.test('real secret accepted').value(problemsOf({ ...production, SECRET: 's3cr3t' })).value('').equal;
+    battery.test('default allowed in development')
+      .value(problemsOf({ API_URL: 'https://api.example.com' })).value('').equal;
+  });
+
+  TestBattery.test('.env.example follows the enabled features', (battery) => {
+    const config: ProjectConfig = {
+      name: 'env-app',
+      template: 'minimal',
+      features: { ...loadManifest('minimal').features, auth: true, observability: false },
+      packageManager: 'npm',
+      git: false,
+      gitCommit: false,
+      install: false,
+      vars: {}
+    };
+    const example = renderEnvExample(envSchema(config));
+
+    battery.test('defaults written').value(example.includes('\nJWT_SECRET=your-secret-here-change-in-production\n')).value(true).equal;
+    battery.test('optional variables commented out').value(example.includes('\n# JWT_AUDIENCE=env-app\n')).value(true).equal;
+    battery.test('disabled features left out').value(example.includes('OTEL_')).value(false).equal;
+  });
+});
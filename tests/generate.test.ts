@@ -0,0 +1,214 @@
+import { suite } from 'node:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, posix, relative, resolve, sep } from 'path';
+import ts from 'typescript';
+import { TestBattery } from 'test-battery';
+import { PackageManager, ProjectConfig, ProjectFeatures, TemplateName } from '../src/types.js';
+import { builtinTemplate, loadManifest } from '../src/templates.js';
+import { memoryOutput } from '../src/output.js';
+import { generateProject } from '../src/generators/index.js';
+import { compareSnapshot, serializeFiles } from './snapshot.js';
+
+const PROJECT_PATH = resolve('/virtual/snapshot-app');
+
+/**
+ * Template × feature combinations covered by snapshots: each template's
+ * defaults, everything off, each feature on its own, everything on, and the
+ * package managers other than npm
+ */
+const CASES: [string, TemplateName, Partial<ProjectFeatures>, PackageManager?][] = [
+  ['minimal', 'minimal', {}],
+  ['api', 'api', {}],
+  ['full', 'full', {}],
+  ['minimal-bare', 'minimal', { docker: false, ci: 'none', openapi: false }],
+  ['minimal-docker-compose', 'minimal', { dockerCompose: true }],
+  ['minimal-gitlab', 'minimal', { ci: 'gitlab' }],
+  ['minimal-auth', 'minimal', { auth: true }],
+  ['minimal-observability', 'minimal', { observability: true }],
+  ['api-no-auth', 'api', { auth: false }],
+  ['full-everything', 'full', { dockerCompose: true, ci: 'gitlab', openapi: true, auth: true, observability: true }],
+  ['minimal-pnpm', 'minimal', {}, 'pnpm'],
+  ['minimal-yarn', 'minimal', { ci: 'gitlab' }, 'yarn'],
+  ['minimal-bun', 'minimal', {}, 'bun']
+];
+
+function projectConfig(
+  template: TemplateName,
+  features: Partial<ProjectFeatures>,
+  packageManager: PackageManager = 'npm'
+): ProjectConfig {
+  const merged = { ...loadManifest(template).features, ...features };
+
+  return {
+    name: 'snapshot-app',
+    template,
+    features: { ...merged, docker: merged.docker || merged.dockerCompose },
+    packageManager,
+    git: false,
+    gitCommit: false,
+    install: false,
+    vars: {}
+  };
+}
+
+/**
+ * Generate a project in memory, keyed by project-relative path
+ */
+function generate(config: ProjectConfig): Map<string, string> {
+  const output = memoryOutput();
+
+  if (!generateProject(PROJECT_PATH, config, builtinTemplate(config.template as TemplateName), output)) {
+    throw new Error(`Generating ${config.template} failed`);
+  }
+
+  const files = new Map<string, string>();
+  for (const [path, file] of output.files) {
+    files.set(relative(PROJECT_PATH, path).split(sep).join('/'), file.content.toString('utf-8'));
+  }
+  return files;
+}
+
+// Relative `.js` imports in generated TypeScript that have no `.ts` file
+function unresolvedImports(files: Map<string, string>) {
+  const missing: string[] = [];
+
+  for (const [path, content] of files) {
+    if (!path.endsWith('.ts')) {
+      continue;
+    }
+    for (const [, specifier] of content.matchAll(/from '(\.\.?\/[^']+)\.js'/g)) {
+      const target = posix.join(posix.dirname(path), `${specifier}.ts`);
+      if (!files.has(target)) {
+        missing.push(`${path} -> ${specifier}.js`);
+      }
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Type errors in the generated sources, checked with the project's own
+ * tsconfig.json. Its dependencies aren't installed here, so errors that only
+ * come from their missing types are left out: unresolved packages, module
+ * augmentations of them, and implicit `any`s.
+ */
+function typeErrors(files: Map<string, string>) {
+  const root = mkdtempSync(join(tmpdir(), 'create-filament-tsc-'));
+
+  try {
+    for (const [path, content] of files) {
+      mkdirSync(dirname(join(root, path)), { recursive: true });
+      writeFileSync(join(root, path), content);
+    }
+
+    const parsed = ts.getParsedCommandLineOfConfigFile(
+      join(root, 'tsconfig.json'),
+      { noEmit: true, noImplicitAny: false, typeRoots: [resolve('node_modules/@types')] },
+      { ...ts.sys, onUnRecoverableConfigFileDiagnostic: () => {} }
+    );
+    if (!parsed) {
+      return ['tsconfig.json could not be read'];
+    }
+
+    return ts.getPreEmitDiagnostics(ts.createProgram(parsed.fileNames, parsed.options))
+      .filter((diagnostic) => {
+        const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+        const missingPackage = diagnostic.code === 2307 && !/module '\./.test(message);
+        return !missingPackage && diagnostic.code !== 2664;
+      })
+      .map((diagnostic) => {
+        const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ');
+        if (!diagnostic.file) {
+          return `TS${diagnostic.code}: ${message}`;
+        }
+        const { line } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+        return `${relative(root, diagnostic.file.fileName)}:${line + 1} TS${diagnostic.code}: ${message}`;
+      });
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+}
+
+suite('Project generation', () => {
+  for (const [name, template, features, packageManager] of CASES) {
+    TestBattery.test(`${name} matches its snapshot`, (battery) => {
+      const files = generate(projectConfig(template, features, packageManager));
+      battery.test(`no differences from __snapshots__/${name}.snap`)
+        .value(compareSnapshot(name, serializeFiles(files))).value('').equal;
+    });
+
+    TestBattery.test(`${name} has no unresolved imports or template markers`, (battery) => {
+      const files = generate(projectConfig(template, features, packageManager));
+      const leftovers = [...files]
+        .filter(([path, content]) => path.endsWith('.tmpl') || /^\s*(\/\/|#)\s*#(if|else|endif)\b/m.test(content))
+        .map(([path]) => path);
+
+      battery.test('all relative imports resolve').value(unresolvedImports(files).join('\n')).value('').equal;
+      battery.test('no .tmpl files or #if blocks remain').value(leftovers.join('\n')).value('').equal;
+    });
+
+    TestBattery.test(`${name} type-checks`, (battery) => {
+      const files = generate(projectConfig(template, features, packageManager));
+      battery.test('no type errors').value(typeErrors(files).join('\n')).value('').equal;
+    });
+  }
+
+  TestBattery.test('requiresSession is part of the default metadata with auth', (battery) => {
+    for (const template of ['minimal', 'api', 'full'] as TemplateName[]) {
+      const withAuth = generate(projectConfig(template, { auth: true }));
+      const withoutAuth = generate(projectConfig(template, { auth: false }));
+
+      battery.test(`${template} with auth declares requiresSession`)
+        .value(withAuth.get('src/meta/index.ts')?.includes('requiresSession')).value(true).equal;
+      battery.test(`${template} with auth defaults requiresSession`)
+        .value(withAuth.get('src/meta/defaults.ts')?.includes('requiresSession: false')).value(true).equal;
+      battery.test(`${template} without auth has no requiresSession`)
+        .value(withoutAuth.get('src/meta/defaults.ts')?.includes('requiresSession')).value(false).equal;
+    }
+  });
+
+  TestBattery.test('example routes only require auth when something enforces it', (battery) => {
+    const withAuth = generate(projectConfig('api', { auth: true })).get('src/routes/users.ts')!;
+    const withoutAuth = generate(projectConfig('api', { auth: false })).get('src/routes/users.ts')!;
+
+    battery.test('with auth, writes need a user').value(withAuth.match(/\.\.\.AUTHENTICATED,/g)?.length).value(2).equal;
+    battery.test('with auth, deletes need an admin').value(withAuth.includes("role: 'admin'")).value(true).equal;
+    battery.test('without auth, no route claims to need a user')
+      .value(withoutAuth.includes('AUTHENTICATED')).value(false).equal;
+    battery.test('without auth, no route needs a role').value(withoutAuth.includes('role:')).value(false).equal;
+  });
+
+  TestBattery.test('package.json follows the features', (battery) => {
+    const bare = JSON.parse(generate(projectConfig('minimal', { openapi: false })).get('package.json')!);
+    const full = JSON.parse(generate(projectConfig('full', { openapi: true })).get('package.json')!);
+
+    battery.test('bare project has no redis').value(bare.dependencies.redis).value(undefined).equal;
+    battery.test('bare project has no openapi:export').value(bare.scripts['openapi:export']).value(undefined).equal;
+    battery.test('auth adds redis').value(typeof full.dependencies.redis).value('string').equal;
+    battery.test('openapi adds openapi:export').value(typeof full.scripts['openapi:export']).value('string').equal;
+  });
+
+  TestBattery.test('bun scripts never run bun\'s own test runner', (battery) => {
+    const files = generate(projectConfig('minimal', { ci: 'github' }, 'bun'));
+    const mentions = [...files.values()].some((content) => /\bbun test\b/.test(content));
+    battery.test('no `bun test`').value(mentions).value(false).equal;
+  });
+
+  TestBattery.test('nothing is installed or committed when disabled', (battery) => {
+    const output = memoryOutput();
+    generateProject(PROJECT_PATH, projectConfig('minimal', {}), builtinTemplate('minimal'), output);
+    battery.test('no commands run').value(output.commands.length).value(0).equal;
+  });
+
+  TestBattery.test('install and git commands run in the project', (battery) => {
+    const output = memoryOutput();
+    const config = { ...projectConfig('minimal', {}, 'pnpm'), install: true, git: true, gitCommit: true };
+    generateProject(PROJECT_PATH, config, builtinTemplate('minimal'), output);
+
+    const commands = output.commands.map(({ command }) => command.split(' ').slice(0, 2).join(' '));
+    battery.test('commands in order').value(commands.join(', ')).value('pnpm install, git init, git add, git commit').equal;
+    battery.test('run in the project directory').value(output.commands.every(({ cwd }) => cwd === PROJECT_PATH)).value(true).equal;
+  });
+});
@@ -0,0 +1,194 @@
+import { suite } from 'node:test';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { TestBattery } from 'test-battery';
+import { ProjectConfig } from '../src/types.js';
+import { builtinTemplate, loadManifest } from '../src/templates.js';
+import { diskOutput, memoryOutput } from '../src/output.js';
+import { generateProject, renderProject } from '../src/generators/index.js';
+import { detectProject } from '../src/project.js';
+import { planUpgrade } from '../src/update.js';
+import { parseArgs } from '../src/args.js';
+import { Settings, applySettings, loadSettings, savePreset } from '../src/presets.js';
+
+const PROJECT_PATH = resolve('/virtual/preset-app');
+
+const SETTINGS: Settings = {
+  userConfigPath: '/home/me/.config/create-filament/config.json',
+  organizationConfigPath: '/work/.create-filament.json',
+  presets: {},
+  defaults: { packageManager: 'pnpm', features: { ci: 'gitlab', auth: true } },
+  locked: ['packageManager', 'ci'],
+  extras: {}
+};
+
+function errorOf(run: () => unknown) {
+  try {
+    run();
+  } catch (error) {
+    return (error as Error).message;
+  }
+  return '';
+}
+
+suite('Presets and organization defaults', () => {
+  TestBattery.test('presets fill in what flags leave open', (battery) => {
+    const options = applySettings(
+      parseArgs(['--no-git', '--docker']),
+      { ...SETTINGS, locked: [] },
+      { template: 'api', git: true, features: { docker: false, openapi: false } }
+    );
+
+    battery.test('preset template used').value(options.template).value('api').equal;
+    battery.test('preset feature used').value(options.features.openapi).value(false).equal;
+    battery.test('flag wins over the preset').value(options.features.docker).value(true).equal;
+    battery.test('flag wins over the preset (git)').value(options.git).value(false).equal;
+  });
+
+  TestBattery.test('locked choices are forced', (battery) => {
+    const options = applySettings(parseArgs([]), SETTINGS, { features: { openapi: true } });
+
+    battery.test('locked package manager set').value(options.packageManager).value('pnpm').equal;
+    battery.test('locked CI set').value(options.features.ci).value('gitlab').equal;
+    battery.test('unlocked defaults left to the prompts').value(options.features.auth).value(undefined).equal;
+    battery.test('flags contradicting a lock refused')
+      .value(errorOf(() => applySettings(parseArgs(['--pm=npm']), SETTINGS)))
+      .value('packageManager is locked to pnpm by /work/.create-filament.json').equal;
+    battery.test('presets contradicting a lock refused')
+      .value(errorOf(() => applySettings(parseArgs([]), SETTINGS, { features: { ci: 'github' } })))
+      .value('ci is locked to gitlab by /work/.create-filament.json').equal;
+  });
+
+  TestBattery.test('settings come from the user and nearest organization config', (battery) => {
+    const root = mkdtempSync(join(tmpdir(), 'create-filament-presets-'));
+    const previous = process.env.XDG_CONFIG_HOME;
+    process.env.XDG_CONFIG_HOME = join(root, 'config');
+
+    try {
+      const userConfig = join(root, 'config', 'create-filament', 'config.json');
+      mkdirSync(join(root, 'config', 'create-filament'), { recursive: true });
+      writeFileSync(userConfig, JSON.stringify({ presets: { team: { packageManager: 'yarn' } } }));
+      mkdirSync(join(root, 'work', 'service'), { recursive: true });
+      writeFileSync(join(root, 'work', '.create-filament.json'), JSON.stringify({
+        defaults: { packageManager: 'pnpm' },
+        locked: ['packageManager'],
+        presets: { team: { packageManager: 'npm' }, lean: { features: { docker: false } } },
+        dependencies: { zod: '^3.23.0' },
+        files: 'shared'
+      }));
+
+      const settings = loadSettings(join(root, 'work', 'service'));
+
+      battery.test('organization config found in a parent')
+        .value(settings.organizationConfigPath).value(join(root, 'work', '.create-filament.json')).equal;
+      battery.test('user presets replace organization presets of the same name')
+        .value(settings.presets.team.packageManager).value('yarn').equal;
+      battery.test('organization presets available').value(Object.keys(settings.presets).sort().join(', ')).value('lean, team').equal;
+      battery.test('files relative to the config').value(settings.extras.files).value(join(root, 'work', 'shared')).equal;
+
+      writeFileSync(join(root, 'work', '.create-filament.json'), JSON.stringify({ locked: ['auth'] }));
+      battery.test('locks need a default')
+        .value(errorOf(() => loadSettings(join(root, 'work'))).endsWith('"auth" is locked but has no default')).value(true).equal;
+
+      const config: ProjectConfig = {
+        name: 'saved',
+        template: 'api',
+        features: { ...loadManifest('api').features, ci: 'gitlab' },
+        packageManager: 'pnpm',
+        git: true,
+        gitCommit: false,
+        install: true,
+        vars: {}
+      };
+      savePreset(userConfig, 'saved', config);
+      const saved = JSON.parse(readFileSync(userConfig, 'utf-8'));
+
+      battery.test('saved alongside existing presets').value(Object.keys(saved.presets).join(', ')).value('team, saved').equal;
+      battery.test('answers saved').value(saved.presets.saved.features.ci).value('gitlab').equal;
+      battery.test('project name not saved').value(saved.presets.saved.name).value(undefined).equal;
+    } finally {
+      if (previous === undefined) {
+        delete process.env.XDG_CONFIG_HOME;
+      } else {
+        process.env.XDG_CONFIG_HOME = previous;
+      }
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  TestBattery.test('organization extras are added to generated projects', (battery) => {
+    const root = mkdtempSync(join(tmpdir(), 'create-filament-extras-'));
+    try {
+      mkdirSync(join(root, 'src'));
+      writeFileSync(join(root, 'CODEOWNERS'), '* @platform-team\n');
+      writeFileSync(join(root, 'src', 'banner.ts.tmpl'), "export const BANNER = '{{name}}';\n");
+
+      const output = memoryOutput();
+      const generated = generateProject(PROJECT_PATH, {
+        name: 'preset-app',
+        template: 'minimal',
+        features: loadManifest('minimal').features,
+        packageManager: 'npm',
+        git: false,
+        gitCommit: false,
+        install: false,
+        vars: {},
+        extras: { dependencies: { zod: '^3.23.0' }, devDependencies: { vitest: '^2.0.0' }, files: root }
+      }, builtinTemplate('minimal'), output);
+
+      const file = (path: string) => output.files.get(resolve(PROJECT_PATH, path))?.content.toString();
+      const packageJson = JSON.parse(file('package.json')!);
+
+      battery.test('generated').value(generated).value(true).equal;
+      battery.test('extra dependency').value(packageJson.dependencies.zod).value('^3.23.0').equal;
+      battery.test('extra dev dependency').value(packageJson.devDependencies.vitest).value('^2.0.0').equal;
+      battery.test('extra file copied').value(file('CODEOWNERS')).value('* @platform-team\n').equal;
+      battery.test('extra template rendered').value(file('src/banner.ts')).value("export const BANNER = 'preset-app';\n").equal;
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  TestBattery.test('upgrades leave organization extras alone', (battery) => {
+    const root = mkdtempSync(join(tmpdir(), 'create-filament-extras-'));
+    try {
+      const extras = join(root, 'extras');
+      const projectPath = join(root, 'preset-app');
+      mkdirSync(extras);
+      writeFileSync(join(extras, 'CODEOWNERS'), '* @platform-team\n');
+
+      generateProject(projectPath, {
+        name: 'preset-app',
+        template: 'minimal',
+        features: loadManifest('minimal').features,
+        packageManager: 'npm',
+        git: false,
+        gitCommit: false,
+        install: false,
+        vars: {},
+        extras: { devDependencies: { vitest: '^2.0.0' }, files: extras }
+      }, builtinTemplate('minimal'), diskOutput());
+
+      // The next version bumps a dependency
+      const recorded = detectProject(projectPath);
+      const before = renderProject(projectPath, recorded, builtinTemplate('minimal'));
+      const after = new Map(before);
+      const packageJsonPath = join(projectPath, 'package.json');
+      const packageJson = JSON.parse(before.get(packageJsonPath)!.content.toString());
+      packageJson.dependencies.pino = '^9.0.0';
+      after.set(packageJsonPath, { content: Buffer.from(JSON.stringify(packageJson, null, 2) + '\n'), executable: false });
+
+      const plan = planUpgrade(projectPath, before, after);
+      const touched = [...plan.updates, ...plan.conflicts, ...plan.skipped].map((file) => file.path.slice(projectPath.length + 1));
+      const merged = JSON.parse(plan.updates[0].content.toString());
+
+      battery.test('extras not recorded').value(recorded.extras).value(undefined).equal;
+      battery.test('only package.json changes').value(touched.join(', ')).value('package.json').equal;
+      battery.test('template change merged').value(merged.dependencies.pino).value('^9.0.0').equal;
+      battery.test('extra dependency kept').value(merged.devDependencies.vitest).value('^2.0.0').equal;
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,43 @@
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { unifiedDiff } from '../src/diff.js';
+
+const SNAPSHOT_DIR = resolve(dirname(fileURLToPath(import.meta.url)), '__snapshots__');
+
+/**
+ * Run with UPDATE_SNAPSHOTS=1 to accept the current output, including for
+ * new cases
+ */
+const UPDATE = process.env.UPDATE_SNAPSHOTS === '1';
+
+/**
+ * Serialize generated files as one text document, sorted by path
+ */
+export function serializeFiles(files: Map<string, string>) {
+  return [...files.keys()]
+    .sort()
+    .map((path) => `==== ${path} ====\n${files.get(path)!.replace(/\n$/, '')}\n`)
+    .join('\n');
+}
+
+/**
+ * Compare against the stored snapshot, returning a diff (empty when it
+ * matches). A missing snapshot fails rather than being written, so a case
+ * can't pass without one checked in.
+ */
+export function compareSnapshot(name: string, actual: string): string {
+  const file = resolve(SNAPSHOT_DIR, `${name}.snap`);
+
+  if (UPDATE) {
+    mkdirSync(SNAPSHOT_DIR, { recursive: true });
+    writeFileSync(file, actual);
+    return '';
+  }
+
+  if (!existsSync(file)) {
+    return `No snapshot ${name}.snap; run with UPDATE_SNAPSHOTS=1 to write it`;
+  }
+
+  return unifiedDiff(readFileSync(file, 'utf-8'), actual, `${name}.snap`);
+}
@@ -0,0 +1,163 @@
+import { suite, before, after } from 'node:test';
+import { execFileSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { TestBattery } from 'test-battery';
+import { ProjectConfig } from '../src/types.js';
+import { Template, loadManifest } from '../src/templates.js';
+import { memoryOutput } from '../src/output.js';
+import { generateProject } from '../src/generators/index.js';
+import { fetchTemplate, resolveTemplateSpec, templateSourceKind } from '../src/sources.js';
+
+const PROJECT_PATH = resolve('/virtual/sourced-app');
+
+// A third-party template with its own prompt and auth overlay
+const TEMPLATE_FILES: Record<string, string> = {
+  'template.json': JSON.stringify({
+    name: 'acme-service',
+    description: 'Acme service',
+    version: '1.2.0',
+    extends: 'minimal',
+    features: loadManifest('minimal').features,
+    prompts: [{ name: 'team', type: 'text', message: 'Owning team', initial: 'platform' }],
+    overlays: { auth: 'overlays/auth' }
+  }),
+  'OWNERS.tmpl': '{{vars.team}}\n',
+  'overlays/auth/src/middleware/auth.ts': 'export const ACME_AUTH = true;\n'
+};
+
+function writeTemplate(dir: string) {
+  for (const [path, content] of Object.entries(TEMPLATE_FILES)) {
+    mkdirSync(dirname(join(dir, path)), { recursive: true });
+    writeFileSync(join(dir, path), content);
+  }
+}
+
+function generate(template: Template) {
+  const config: ProjectConfig = {
+    name: 'sourced-app',
+    template: template.spec,
+    features: { ...template.manifest.features, auth: true },
+    packageManager: 'npm',
+    git: false,
+    gitCommit: false,
+    install: false,
+    vars: { team: 'payments' }
+  };
+  const output = memoryOutput();
+  generateProject(PROJECT_PATH, config, template, output);
+  return (path: string) => output.files.get(resolve(PROJECT_PATH, path))?.content.toString();
+}
+
+async function errorOf(work: Promise<unknown>) {
+  try {
+    await work;
+  } catch (error) {
+    return (error as Error).message;
+  }
+  return '';
+}
+
+suite('Template sources', () => {
+  let root: string;
+  let templateDir: string;
+  let tarball: string;
+  let repository: string;
+
+  before(() => {
+    root = mkdtempSync(join(tmpdir(), 'create-filament-sources-'));
+
+    templateDir = join(root, 'acme-service');
+    writeTemplate(templateDir);
+
+    // Wrapped in a top-level directory, like npm pack output
+    tarball = join(root, 'acme-service-1.2.0.tgz');
+    execFileSync('tar', ['-czf', tarball, '-C', root, 'acme-service']);
+
+    repository = join(root, 'repository');
+    writeTemplate(repository);
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repository, stdio: 'pipe' });
+    git('init', '--quiet');
+    git('add', '-A');
+    git('-c', 'user.name=Acme', '-c', 'user.email=dev@acme.test', 'commit', '--quiet', '-m', 'Template');
+    git('tag', 'v1.2.0');
+  });
+
+  after(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  TestBattery.test('template specs are told apart', (battery) => {
+    battery.test('directory').value(templateSourceKind('./acme-service')).value('directory').equal;
+    battery.test('tarball').value(templateSourceKind('./acme-service-1.2.0.tgz')).value('tarball').equal;
+    battery.test('file URL').value(templateSourceKind('file:///srv/templates/acme')).value('git').equal;
+    battery.test('GitHub shorthand').value(templateSourceKind('github:acme/service#v2')).value('git').equal;
+  });
+
+  TestBattery.test('local templates are recorded as absolute paths', (battery) => {
+    battery.test('relative directory')
+      .value(resolveTemplateSpec('./templates/ours')).value(resolve('templates/ours')).equal;
+    battery.test('home directory')
+      .value(resolveTemplateSpec('~/templates/ours')).value(join(homedir(), 'templates/ours')).equal;
+    battery.test('local tarball')
+      .value(resolveTemplateSpec('../ours-1.0.0.tgz')).value(resolve('../ours-1.0.0.tgz')).equal;
+    battery.test('remote tarball')
+      .value(resolveTemplateSpec('https://example.com/ours.tgz')).value('https://example.com/ours.tgz').equal;
+    battery.test('git repository')
+      .value(resolveTemplateSpec('github:acme/ours#v2')).value('github:acme/ours#v2').equal;
+    battery.test('built-in template').value(resolveTemplateSpec('api')).value('api').equal;
+  });
+
+  TestBattery.test('templates from a directory', async (battery) => {
+    const { template, cleanup } = await fetchTemplate(templateDir);
+    cleanup();
+    const file = generate(template);
+
+    battery.test('manifest read').value(template.manifest.name).value('acme-service').equal;
+    battery.test('prompts read').value(template.manifest.prompts?.map((prompt) => prompt.name).join()).value('team').equal;
+    battery.test('prompt answer rendered').value(file('OWNERS')).value('payments\n').equal;
+    battery.test('overlay replaces the built-in one')
+      .value(file('src/middleware/auth.ts')).value('export const ACME_AUTH = true;\n').equal;
+    battery.test('overlay directory not copied').value(file('overlays/auth/src/middleware/auth.ts')).value(undefined).equal;
+    battery.test('extended template included').value(file('src/index.ts') !== undefined).value(true).equal;
+    battery.test('template version recorded')
+      .value(JSON.parse(file('.filament.json')!).template.version).value('1.2.0').equal;
+  });
+
+  TestBattery.test('templates from a tarball', async (battery) => {
+    const { template, cleanup } = await fetchTemplate(tarball);
+    const file = generate(template);
+    const extracted = template.root;
+    cleanup();
+
+    battery.test('spec kept').value(template.spec).value(tarball).equal;
+    battery.test('unwrapped').value(template.manifest.name).value('acme-service').equal;
+    battery.test('prompt answer rendered').value(file('OWNERS')).value('payments\n').equal;
+    battery.test('overlay applied')
+      .value(file('src/middleware/auth.ts')).value('export const ACME_AUTH = true;\n').equal;
+    battery.test('extracted files removed').value(existsSync(extracted)).value(false).equal;
+  });
+
+  TestBattery.test('templates from a git repository', async (battery) => {
+    const { template, cleanup } = await fetchTemplate(`file://${repository}#v1.2.0`);
+    const file = generate(template);
+    const cloned = template.root;
+    cleanup();
+
+    battery.test('manifest read').value(template.manifest.name).value('acme-service').equal;
+    battery.test('prompt answer rendered').value(file('OWNERS')).value('payments\n').equal;
+    battery.test('overlay applied')
+      .value(file('src/middleware/auth.ts')).value('export const ACME_AUTH = true;\n').equal;
+    battery.test('git metadata not copied').value(file('.git/HEAD')).value(undefined).equal;
+    battery.test('clone removed').value(existsSync(cloned)).value(false).equal;
+  });
+
+  TestBattery.test('specs that look like options are rejected', async (battery) => {
+    battery.test('template')
+      .value(errorOf(fetchTemplate('--upload-pack=touch /tmp/pwned'))).value('Invalid template "--upload-pack=touch /tmp/pwned"').equal;
+    battery.test('ref')
+      .value(errorOf(fetchTemplate(`file://${repository}#--orphan`)))
+      .value(`Invalid ref "--orphan" for template repository file://${repository}`).equal;
+  });
+});
@@ -0,0 +1,128 @@
+import { suite } from 'node:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TestBattery } from 'test-battery';
+import { PlannedFile } from '../src/output.js';
+import { appendEnvExample, mergePackageJson, planUpdate, planUpgrade } from '../src/update.js';
+import { mergeThreeWay } from '../src/merge.js';
+
+function planned(files: Record<string, string>, root: string) {
+  const map = new Map<string, PlannedFile>();
+  for (const [path, content] of Object.entries(files)) {
+    map.set(join(root, path), { content: Buffer.from(content), executable: false });
+  }
+  return map;
+}
+
+suite('Updating existing projects', () => {
+  TestBattery.test('package.json merges keep the project\'s versions', (battery) => {
+    const current = JSON.stringify({ dependencies: { filamentjs: '^2.0.0' }, scripts: { dev: 'tsx src' } }, null, 2) + '\n';
+    const generated = JSON.stringify({
+      dependencies: { filamentjs: '^1.0.0', redis: '^4.7.0' },
+      devDependencies: { tsx: '^4.19.0' },
+      scripts: { dev: 'tsx watch src' }
+    });
+    const merged = JSON.parse(mergePackageJson(current, generated));
+
+    battery.test('bumped version kept').value(merged.dependencies.filamentjs).value('^2.0.0').equal;
+    battery.test('new dependency added').value(merged.dependencies.redis).value('^4.7.0').equal;
+    battery.test('new section added').value(merged.devDependencies.tsx).value('^4.19.0').equal;
+    battery.test('edited script kept').value(merged.scripts.dev).value('tsx src').equal;
+    battery.test('trailing newline kept').value(mergePackageJson(current, generated).endsWith('}\n')).value(true).equal;
+  });
+
+  TestBattery.test('.env.example only gains missing variables', (battery) => {
+    const current = '# Server\nPORT=3000\n';
+    const generated = '# Server\nPORT=3000\nHOST=0.0.0.0\n\n# Redis\nREDIS_URL=redis://localhost:6379\n';
+
+    battery.test('missing lines and sections appended')
+      .value(appendEnvExample(current, generated))
+      .value('# Server\nPORT=3000\n\nHOST=0.0.0.0\n\n# Redis\nREDIS_URL=redis://localhost:6379\n').equal;
+    battery.test('complete file left alone').value(appendEnvExample(generated, current)).value(generated).equal;
+  });
+
+  TestBattery.test('edited files are reported instead of replaced', (battery) => {
+    const root = mkdtempSync(join(tmpdir(), 'create-filament-update-'));
+    try {
+      writeFileSync(join(root, 'pristine.ts'), 'a\n');
+      writeFileSync(join(root, 'edited.ts'), 'mine\n');
+      writeFileSync(join(root, 'untouched.ts'), 'mine\n');
+
+      const plan = planUpdate(
+        root,
+        planned({ 'pristine.ts': 'a\n', 'edited.ts': 'a\n', 'untouched.ts': 'a\n', 'deleted.ts': 'a\n' }, root),
+        planned({ 'pristine.ts': 'b\n', 'edited.ts': 'b\n', 'untouched.ts': 'a\n', 'deleted.ts': 'b\n', 'new.ts': 'c\n' }, root)
+      );
+
+      const updates = plan.updates.map((update) => `${update.action} ${update.path.slice(root.length + 1)}`);
+      const edited = plan.edited.map((file) => file.path.slice(root.length + 1));
+
+      battery.test('pristine files updated and new files created')
+        .value(updates.join(', ')).value('update pristine.ts, create new.ts').equal;
+      battery.test('edited and deleted files reported')
+        .value(edited.join(', ')).value('edited.ts, deleted.ts').equal;
+      battery.test('diff shows the generated change')
+        .value(plan.edited[0].diff.includes('-a\n+b')).value(true).equal;
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  TestBattery.test('three-way merges keep both sides\' changes', (battery) => {
+    const base = 'a\nb\nc\nd\ne\n';
+
+    battery.test('separate changes are combined')
+      .value(mergeThreeWay(base, 'a\nB\nc\nd\ne\n', 'a\nb\nc\nD\ne\nf\n').content).value('a\nB\nc\nD\ne\nf\n').equal;
+    battery.test('the same change is not a conflict')
+      .value(mergeThreeWay(base, 'a\nX\nc\nd\ne\n', 'a\nX\nc\nd\ne\n').conflicts).value(0).equal;
+
+    const conflicted = mergeThreeWay(base, 'a\nmine\nc\nd\ne\n', 'a\ntheirs\nc\nd\ne\n');
+    battery.test('overlapping changes conflict').value(conflicted.conflicts).value(1).equal;
+    battery.test('conflict markers around both sides')
+      .value(conflicted.content)
+      .value('a\n<<<<<<< yours\nmine\n=======\ntheirs\n>>>>>>> template\nc\nd\ne\n').equal;
+  });
+
+  TestBattery.test('upgrades merge into edited files and report conflicts', (battery) => {
+    const root = mkdtempSync(join(tmpdir(), 'create-filament-upgrade-'));
+    try {
+      writeFileSync(join(root, 'pristine.ts'), 'a\n');
+      writeFileSync(join(root, 'merged.ts'), 'mine\nb\nc\nd\n');
+      writeFileSync(join(root, 'conflicted.ts'), 'mine\n');
+      writeFileSync(join(root, 'obsolete.ts'), 'a\n');
+
+      const plan = planUpgrade(
+        root,
+        planned({
+          'pristine.ts': 'a\n',
+          'merged.ts': 'a\nb\nc\nd\n',
+          'conflicted.ts': 'a\n',
+          'deleted.ts': 'a\n',
+          'obsolete.ts': 'a\n'
+        }, root),
+        planned({
+          'pristine.ts': 'b\n',
+          'merged.ts': 'a\nb\nc\nD\n',
+          'conflicted.ts': 'b\n',
+          'deleted.ts': 'b\n',
+          'new.ts': 'c\n'
+        }, root)
+      );
+
+      const relativePath = (path: string) => path.slice(root.length + 1);
+      const updates = plan.updates.map((update) => `${update.action} ${relativePath(update.path)}`);
+
+      battery.test('pristine files updated, edited files merged, new files created')
+        .value(updates.join(', ')).value('update pristine.ts, merge merged.ts, create new.ts').equal;
+      battery.test('merge keeps the edit')
+        .value(plan.updates[1].content.toString()).value('mine\nb\nc\nD\n').equal;
+      battery.test('conflicts reported')
+        .value(plan.conflicts.map((file) => relativePath(file.path)).join(', ')).value('conflicted.ts').equal;
+      battery.test('deleted and obsolete files skipped')
+        .value(plan.skipped.map((file) => relativePath(file.path)).join(', ')).value('deleted.ts, obsolete.ts').equal;
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { suite } from 'node:test';
+import { TestBattery } from 'test-battery';
+import { Schema, validate } from '../templates/minimal/src/validation/index.js';
+
+const ORDER: Schema = {
+  type: 'object',
+  properties: {
+    email: { type: 'string', format: 'email' },
+    status: { type: 'string', enum: ['open', 'closed'] },
+    items: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: { sku: { type: 'string', minLength: 1 }, quantity: { type: 'integer', minimum: 1 } },
+        required: ['sku', 'quantity'],
+      },
+    },
+  },
+  required: ['email', 'items'],
+  additionalProperties: false,
+};
+
+function fields(schema: Schema, value: unknown, field = '', coerce = false) {
+  const { errors } = validate(schema, value, field, coerce);
+  return errors.map((error) => `${error.field} ${error.message}`).join('; ');
+}
+
+suite('Request validation', () => {
+  TestBattery.test('valid input passes', (battery) => {
+    battery.test('no errors')
+      .value(fields(ORDER, { email: 'a@example.com', items: [{ sku: 'x', quantity: 2 }] })).value('').equal;
+  });
+
+  TestBattery.test('every violation is reported with its field', (battery) => {
+    battery.test('missing, invalid, nested and unknown fields')
+      .value(fields(ORDER, { status: 'lost', items: [{ sku: '', quantity: 1.5 }], extra: true }))
+      .value([
+        'email is required',
+        'status must be one of open, closed',
+        'items[0].sku must not be empty',
+        'items[0].quantity must be an integer',
+        'extra is not allowed'
+      ].join('; ')).equal;
+    battery.test('wrong type').value(fields(ORDER, [], 'body')).value('body must be an object').equal;
+  });
+
+  TestBattery.test('query strings are parsed into the declared types', (battery) => {
+    const query: Schema = {
+      type: 'object',
+      properties: {
+        limit: { type: 'integer', maximum: 100 },
+        draft: { type: 'boolean' },
+        tag: { type: 'array', items: { type: 'string' } },
+      },
+    };
+    const { value, errors } = validate(query, { limit: '25', draft: 'true', tag: 'new' }, 'query', true);
+
+    battery.test('no errors').value(errors.length).value(0).equal;
+    battery.test('number parsed').value((value as { limit: number }).limit).value(25).equal;
+    battery.test('boolean parsed').value((value as { draft: boolean }).draft).value(true).equal;
+    battery.test('single value becomes an array').value((value as { tag: string[] }).tag.join()).value('new').equal;
+    battery.test('unparseable reported')
+      .value(fields(query, { limit: 'many' }, 'query', true)).value('query.limit must be an integer').equal;
+  });
+});
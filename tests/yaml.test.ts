@@ -0,0 +1,78 @@
+import { suite } from 'node:test';
+import { TestBattery } from 'test-battery';
+import { toYaml } from '../src/yaml.js';
+
+suite('YAML emitter', () => {
+  TestBattery.test('objects and arrays are written as blocks', (battery) => {
+    const yaml = toYaml({
+      services: {
+        app: {
+          ports: ['3000:3000'],
+          env_file: [{ path: '.env', required: false }],
+          healthcheck: { test: ['CMD', 'redis-cli', 'ping'], retries: 5 }
+        }
+      },
+      volumes: { data: {} },
+      empty: []
+    });
+
+    battery.test('nested layout').value(yaml).value([
+      'services:',
+      '  app:',
+      '    ports:',
+      '      - 3000:3000',
+      '    env_file:',
+      '      - path: .env',
+      '        required: false',
+      '    healthcheck:',
+      '      test:',
+      '        - CMD',
+      '        - redis-cli',
+      '        - ping',
+      '      retries: 5',
+      'volumes:',
+      '  data: {}',
+      'empty: []',
+      ''
+    ].join('\n')).equal;
+  });
+
+  TestBattery.test('undefined values are left out', (battery) => {
+    battery.test('keys and items dropped')
+      .value(toYaml({ a: 1, b: undefined, c: [undefined, 'x'], d: { e: undefined } }))
+      .value('a: 1\nc:\n  - x\nd: {}\n').equal;
+  });
+
+  TestBattery.test('strings that would parse as something else are quoted', (battery) => {
+    const yaml = toYaml({
+      plain: 'redis://redis:6379',
+      substitution: '${JWT_SECRET:?Set JWT_SECRET in .env}',
+      boolean: 'true',
+      word: 'no',
+      number: '10',
+      sexagesimal: '22:22',
+      flag: '--config=/etc/app.yaml',
+      colon: 'a: b',
+      comment: 'a #b',
+      apostrophe: "it's",
+      empty: '',
+      newline: 'a\nb'
+    });
+
+    battery.test('quoting').value(yaml).value([
+      'plain: redis://redis:6379',
+      'substitution: ${JWT_SECRET:?Set JWT_SECRET in .env}',
+      "boolean: 'true'",
+      "word: 'no'",
+      "number: '10'",
+      "sexagesimal: '22:22'",
+      "flag: '--config=/etc/app.yaml'",
+      "colon: 'a: b'",
+      "comment: 'a #b'",
+      'apostrophe: it\'s',
+      "empty: ''",
+      'newline: "a\\nb"',
+      ''
+    ].join('\n')).equal;
+  });
+});